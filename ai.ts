@@ -1,5 +1,8 @@
 // ai-model-lib.ts
-import OpenAI from 'openai';
+import OpenAI, { toFile } from 'openai';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
 
 // ============================================
 // CORE TYPES AND INTERFACES
@@ -18,13 +21,59 @@ export interface AIProviderConfig {
   defaultModel: string;
   /** Optional default headers */
   headers?: Record<string, string>;
+  /** Whether the API accepts OpenAI-style response_format (JSON mode / JSON schema) */
+  supportsResponseFormat?: boolean;
+  /** Whether the API reports usage in streams when asked via stream_options.include_usage */
+  supportsStreamUsage?: boolean;
+  /** Whether the API offers an asynchronous Batch API (used by batch() with `native: true`) */
+  supportsBatch?: boolean;
+  /** Share of the standard token prices charged for Batch API requests (default: 1) */
+  batchPriceFactor?: number;
+  /** Wire protocol spoken by the API (default: 'openai') */
+  protocol?: ProviderProtocol;
+  /** Custom transport factory - overrides the built-in transport for the protocol */
+  transport?: TransportFactory;
+  /** Token prices per model ID (dated versions such as 'gpt-4o-2024-08-06' match their base ID) */
+  pricing?: Record<string, ModelPricing>;
+  /** Context window sizes in tokens per model ID (version matching as for pricing) */
+  contextWindows?: Record<string, number>;
+  /** Whether each model accepts image input (version matching as for pricing; unlisted models are assumed to) */
+  vision?: Record<string, boolean>;
+  /** Image size and format limits enforced before upload */
+  imageLimits?: ImageLimits;
+  /** Default model for embed() (providers without one need `model` passed explicitly) */
+  embeddingModel?: string;
+  /** Per-request limits embed() splits large inputs by */
+  embeddingLimits?: EmbeddingLimits;
 }
 
+/**
+ * Token prices for a model, in USD per million tokens
+ * @interface ModelPricing
+ */
+export interface ModelPricing {
+  /** Price of input (prompt) tokens */
+  input: number;
+  /** Price of output (completion) tokens */
+  output: number;
+  /** Price of input tokens served from the prompt cache (default: input price) */
+  cachedInput?: number;
+  /** Price of reasoning tokens (default: output price) */
+  reasoning?: number;
+}
+
+/**
+ * Wire protocol spoken by a provider
+ * - `openai`: OpenAI-compatible Chat Completions API
+ * - `anthropic`: Anthropic Messages API
+ */
+export type ProviderProtocol = 'openai' | 'anthropic';
+
 /**
  * Main configuration for AI model instances
  * @interface AIModelConfig
  */
-export interface AIModelConfig {
+export interface AIModelConfig extends SamplingOptions {
   /** API key for authentication (required) */
   apiKey: string;
   /** Provider ID - 'openai', 'anthropic', 'openrouter', or custom */
@@ -43,13 +92,179 @@ export interface AIModelConfig {
   timeout?: number;
   /** Number of retry attempts for failed requests */
   retryAttempts?: number;
+  /** Maximum model round-trips spent on tool calls before giving up */
+  maxToolIterations?: number;
+  /** Custom transport instance - overrides the provider's transport */
+  transport?: Transport;
+  /** Which failures to retry and how long to wait between attempts */
+  retryPolicy?: RetryPolicy;
+  /** Ordered provider/model alternatives tried when the primary is unavailable */
+  fallbacks?: FallbackTarget[];
+  /** Spend limits for this instance - requests are rejected once reached */
+  budget?: Budget;
+  /** How conversation history is kept within the context window (default: keep everything) */
+  history?: HistoryStrategy;
+  /** Token estimator used for context-window management (default: estimateTokens) */
+  tokenEstimator?: TokenEstimator;
+  /** Response cache used by requests that opt in with the `cache` option */
+  cache?: ResponseCache;
+  /** Span sink and metrics registry for tracing and monitoring */
+  telemetry?: TelemetryOptions;
+}
+
+/**
+ * Estimates the number of tokens in a text for a model
+ * @param text - Text to measure
+ * @param model - Model the text is sent to
+ */
+export type TokenEstimator = (text: string, model: string) => number;
+
+/**
+ * How conversation history is compacted before each request
+ * - `full`: send the whole history
+ * - `sliding_window`: keep only the most recent `maxMessages` messages
+ * - `drop_oldest`: drop the oldest turns until the request fits `maxTokens`
+ * - `summarize`: replace older turns with a summary written by `model` once the request exceeds `maxTokens`
+ *
+ * `maxTokens` defaults to the model's context window minus the response `maxTokens`.
+ * The system prompt is always kept, and history is only cut at user messages so
+ * tool calls stay paired with their results. If a summary is not enough, the oldest
+ * remaining turns are dropped as with `drop_oldest`.
+ */
+export type HistoryStrategy =
+  | { type: 'full' }
+  | { type: 'sliding_window'; maxMessages: number }
+  | { type: 'drop_oldest'; maxTokens?: number }
+  | {
+      type: 'summarize';
+      maxTokens?: number;
+      /** Recent messages kept verbatim (default: 4) */
+      keepRecent?: number;
+      /** Model used to write the summary, e.g. a cheaper one (default: the request model) */
+      model?: string;
+      /** Response limit for the summary (default: 500) */
+      maxSummaryTokens?: number;
+    };
+
+/**
+ * Spend limits for an AIModel instance
+ * @interface Budget
+ */
+export interface Budget {
+  /** Maximum total cost in USD */
+  maxCost?: number;
+  /** Maximum total tokens */
+  maxTokens?: number;
+}
+
+/**
+ * Alternative provider/model used when the previous one fails with a
+ * retryable or unavailable error
+ * @interface FallbackTarget
+ */
+export interface FallbackTarget {
+  /** Provider ID from the ProviderRegistry */
+  provider: string;
+  /** Model to use (default: the provider's default model) */
+  model?: string;
+  /** API key for this provider (default: the primary API key) */
+  apiKey?: string;
+}
+
+/**
+ * Retry behaviour for failed requests
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+  /** HTTP status codes worth retrying (default: 408, 409, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Error classes that are always retried, whatever their status */
+  retryableErrors?: Array<abstract new (...args: never[]) => Error>;
+  /** Delay before the first retry in milliseconds, doubled on each attempt (default: 2000) */
+  baseDelay?: number;
+  /** Upper bound for any single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /**
+   * Randomization applied to backoff delays (default: 'full')
+   * - `none`: exact exponential delays
+   * - `full`: random delay between 0 and the exponential delay
+   * - `equal`: half the exponential delay plus a random half
+   */
+  jitter?: 'none' | 'full' | 'equal';
+  /** Wait as long as Retry-After / rate-limit reset headers ask (default: true) */
+  respectRetryAfter?: boolean;
+  /** Called before each retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Details about an upcoming retry
+ * @interface RetryInfo
+ */
+export interface RetryInfo {
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  /** Total attempts allowed */
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** The failure */
+  error: Error;
+  /** HTTP status of the failure, if any */
+  status?: number;
+}
+
+/**
+ * Model settings that can be read and changed after construction
+ */
+export type ModelSettings = Omit<AIModelConfig, 'apiKey' | 'provider' | 'transport' | 'cache' | 'telemetry'>;
+
+/**
+ * Model settings with defaults filled in, as returned by getConfig()
+ * Sampling options stay optional: unset ones are left to the provider
+ */
+export type ResolvedModelSettings = Required<Omit<ModelSettings, keyof SamplingOptions>> & SamplingOptions;
+
+/**
+ * Sampling and generation parameters beyond temperature and maxTokens
+ * Set defaults on AIModelConfig and override them per request. Anthropic supports
+ * topP, stop, user and extraBody; the other options are ignored there, except
+ * n > 1 and logprobs, which are rejected.
+ * @interface SamplingOptions
+ */
+export interface SamplingOptions {
+  /** Nucleus sampling: only consider tokens within this probability mass (0-1) */
+  topP?: number;
+  /** Sequences where generation stops */
+  stop?: string | string[];
+  /** Seed for best-effort deterministic sampling */
+  seed?: number;
+  /** Penalize tokens that already appeared at all (-2 to 2) */
+  presencePenalty?: number;
+  /** Penalize tokens by how often they appeared (-2 to 2) */
+  frequencyPenalty?: number;
+  /** Bias per token ID (-100 to 100) */
+  logitBias?: Record<string, number>;
+  /** Number of choices to generate (default: 1; not available when streaming) */
+  n?: number;
+  /** Return log probabilities of the output tokens */
+  logprobs?: boolean;
+  /** Most likely alternatives to return per token (0-20, requires logprobs) */
+  topLogprobs?: number;
+  /** End-user identifier for the provider's abuse monitoring */
+  user?: string;
+  /**
+   * Provider-specific fields merged into the request body, e.g. OpenRouter's `provider` routing preferences
+   * They override the body fields built from the other options, except model, messages and stream
+   */
+  extraBody?: Record<string, unknown>;
 }
 
 /**
  * Per-request options that override model defaults
  * @interface RequestOptions
  */
-export interface RequestOptions {
+export interface RequestOptions extends SamplingOptions {
   /** Model override for this request */
   model?: string;
   /** Temperature override */
@@ -58,21 +273,127 @@ export interface RequestOptions {
   maxTokens?: number;
   /** Enable streaming mode */
   stream?: boolean;
+  /** Tool selection mode: 'auto', 'none', 'required', or a specific tool name */
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+  /** Tool iteration limit override */
+  maxToolIterations?: number;
+  /** Request JSON output - sent as response_format or as prompt instructions */
+  responseFormat?: ResponseFormat;
+  /** Signal to cancel the request, including retries and tool rounds */
+  signal?: AbortSignal;
+  /** Time limit in milliseconds for the whole call, including retries */
+  timeout?: number;
+  /** Serve from / store in the configured response cache (default: false) */
+  cache?: boolean | CacheOptions;
+  /** Queue priority when the provider has a rate limiter; higher runs first (default: 0) */
+  priority?: number;
+  /** Which choice to commit to history when n > 1: an index or a function picking one (default: 0) */
+  selectChoice?: number | ((choices: AIChoice[]) => number);
+  /** Ask for a spoken reply as well as text (OpenAI audio models; send() only) */
+  audio?: AudioOutputOptions;
+  /** Extra system context for this request only - sent after the system prompt, never stored in history */
+  context?: string;
+}
+
+/**
+ * Spoken reply settings
+ * @interface AudioOutputOptions
+ */
+export interface AudioOutputOptions {
+  /** Voice name, e.g. 'alloy' */
+  voice: string;
+  /** Audio encoding (default: 'mp3') */
+  format?: 'wav' | 'mp3' | 'flac' | 'opus' | 'pcm16';
+}
+
+/**
+ * Spoken reply returned by the model
+ * @interface AudioOutput
+ */
+export interface AudioOutput {
+  /** Provider's ID for the audio */
+  id: string;
+  /** Base64-encoded audio - decode with Buffer.from(data, 'base64') */
+  data: string;
+  /** Audio encoding */
+  format: string;
+  /** What was said, also used as the response content */
+  transcript: string;
+  /** When the provider discards the audio (epoch seconds) */
+  expiresAt?: number;
+}
+
+/**
+ * Per-request cache settings
+ * @interface CacheOptions
+ */
+export interface CacheOptions {
+  /** Time to live for the stored response in milliseconds (default: the cache's TTL) */
+  ttl?: number;
+  /** Also cache when temperature > 0, where repeated calls would normally differ (default: false) */
+  allowNonDeterministic?: boolean;
 }
 
+/**
+ * Output format requested from the model
+ * - `text`: free-form text (default)
+ * - `json_object`: any valid JSON object
+ * - `json_schema`: JSON matching the given schema
+ */
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema: JSONSchema };
+
 /**
  * Represents content in a message - can be text or image
  * @interface MessageContent
  */
 export interface MessageContent {
   /** Content type */
-  type: 'text' | 'image_url';
+  type: 'text' | 'image_url' | 'input_audio' | 'file';
   /** Text content (for text type) */
   text?: string;
   /** Image data (for image type) */
   image_url?: {
-    /** Image URL */
+    /** Image URL or base64 data URL */
     url: string;
+    /** Resolution the model looks at the image in (OpenAI; default: 'auto') */
+    detail?: ImageDetail;
+  };
+  /** Audio clip (for input_audio type) */
+  input_audio?: {
+    /** Base64-encoded audio */
+    data: string;
+    /** Encoding of the clip */
+    format: AudioFormat;
+  };
+  /** Document such as a PDF (for file type) */
+  file?: {
+    /** Base64 data URL of the file */
+    file_data?: string;
+    /** ID of a file uploaded to the provider (OpenAI) */
+    file_id?: string;
+    /** File name shown to the model */
+    filename?: string;
+  };
+}
+
+/**
+ * A tool invocation requested by the model
+ * @interface ToolCall
+ */
+export interface ToolCall {
+  /** Provider-assigned call ID */
+  id: string;
+  /** Call type (only functions are supported) */
+  type: 'function';
+  /** Function being called */
+  function: {
+    /** Tool name */
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
   };
 }
 
@@ -82,9 +403,132 @@ export interface MessageContent {
  */
 export interface Message {
   /** Who sent the message */
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   /** The message content */
   content: string | MessageContent[];
+  /** Tool calls requested by the assistant */
+  tool_calls?: ToolCall[];
+  /** ID of the tool call this message answers (tool role only) */
+  tool_call_id?: string;
+}
+
+/**
+ * Minimal JSON schema shape used for tool parameters
+ * @interface JSONSchema
+ */
+export interface JSONSchema {
+  /** Value type */
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  /** Human-readable description */
+  description?: string;
+  /** Object properties */
+  properties?: Record<string, JSONSchema>;
+  /** Required object properties */
+  required?: string[];
+  /** Array item schema */
+  items?: JSONSchema;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Any other JSON schema keyword */
+  [keyword: string]: unknown;
+}
+
+/**
+ * Custom validator for structured output
+ * @param value - Parsed JSON value
+ * @returns List of validation errors (empty when valid)
+ */
+export type OutputValidator = (value: unknown) => string[];
+
+/**
+ * Options for structured output requests
+ * @interface StructuredOptions
+ */
+export interface StructuredOptions extends Omit<RequestOptions, 'responseFormat' | 'stream'> {
+  /** Schema name sent to the provider (default: 'response') */
+  schemaName?: string;
+  /** Extra validation applied after schema validation */
+  validate?: OutputValidator;
+  /** How many times to re-prompt with validation errors (default: 2) */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * A tool the model can call during a conversation
+ * @interface ToolDefinition
+ * @example
+ * ai.registerTool<{ city: string }>({
+ *   name: 'get_weather',
+ *   description: 'Get the current weather for a city',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: { city: { type: 'string' } },
+ *     required: ['city']
+ *   },
+ *   handler: async ({ city }, { signal }) => weatherService.lookup(city, { signal })
+ * });
+ */
+export interface ToolDefinition<TArgs = Record<string, unknown>, TResult = unknown> {
+  /** Unique tool name (letters, digits, underscores and dashes) */
+  name: string;
+  /** What the tool does - the model uses this to decide when to call it */
+  description: string;
+  /** JSON schema for the tool arguments */
+  parameters: JSONSchema;
+  /** Function that executes the tool and returns its result */
+  handler: (args: TArgs, context: ToolContext) => Promise<TResult> | TResult;
+}
+
+/**
+ * Per-call context passed to a tool handler
+ * @interface ToolContext
+ */
+export interface ToolContext {
+  /** Abort signal of the request that called the tool */
+  signal?: AbortSignal;
+}
+
+/**
+ * Token usage statistics
+ * @interface TokenUsage
+ */
+export interface TokenUsage {
+  /** Input tokens used (including cached tokens) */
+  promptTokens: number;
+  /** Output tokens used (including reasoning tokens) */
+  completionTokens: number;
+  /** Total tokens used */
+  totalTokens: number;
+  /** Input tokens served from the provider's prompt cache */
+  cachedTokens?: number;
+  /** Output tokens spent on hidden reasoning */
+  reasoningTokens?: number;
+}
+
+/**
+ * Cost of a request in USD
+ * @interface CostBreakdown
+ */
+export interface CostBreakdown {
+  /** Cost of input tokens */
+  input: number;
+  /** Cost of output tokens */
+  output: number;
+  /** Total cost */
+  total: number;
+}
+
+/**
+ * Running totals for an AIModel instance
+ * @interface SpendSummary
+ */
+export interface SpendSummary {
+  /** Total cost in USD (requests to unpriced models count as 0) */
+  cost: number;
+  /** Total tokens used */
+  tokens: number;
+  /** Number of model calls made (tool rounds count separately) */
+  requests: number;
 }
 
 /**
@@ -95,24 +539,309 @@ export interface AIResponse {
   /** The generated text response */
   content: string;
   /** Token usage statistics */
-  usage: {
-    /** Input tokens used */
-    promptTokens: number;
-    /** Output tokens used */
-    completionTokens: number;
-    /** Total tokens used */
-    totalTokens: number;
-  };
+  usage: TokenUsage;
+  /** Cost of the request (undefined when the model has no known pricing) */
+  cost?: CostBreakdown;
   /** Model that generated the response */
   model: string;
+  /** Provider that generated the response (differs from the configured one after a fallback) */
+  provider: string;
   /** Why the generation stopped */
   finishReason?: string;
+  /** Tool calls executed while producing this response (native batch results: requested, not executed) */
+  toolCalls?: ToolCall[];
+  /** True when the response was served from the response cache (usage and cost are then zero) */
+  cached?: boolean;
+  /** Token usage of the original request, for cache hits */
+  cachedUsage?: TokenUsage;
+  /** Cost of the original request, for cache hits */
+  cachedCost?: CostBreakdown;
+  /** All generated choices, when n > 1 or logprobs were requested */
+  choices?: AIChoice[];
+  /** Log probabilities of the committed choice, when requested */
+  logprobs?: TokenLogprob[];
+  /** Spoken reply, when audio output was requested */
+  audio?: AudioOutput;
+  /** Chunks the answer was grounded on (sendGrounded() only) */
+  sources?: RetrievedChunk[];
+  /** Prompt template in use when the response was generated (see useTemplate()) */
+  template?: TemplateRef;
+}
+
+/**
+ * One of several generated alternatives
+ * @interface AIChoice
+ */
+export interface AIChoice {
+  /** Position in the provider's response */
+  index: number;
+  /** Generated text */
+  content: string;
+  /** Why the generation stopped */
+  finishReason?: string;
+  /** Tool calls requested in this choice (not executed) */
+  toolCalls?: ToolCall[];
+  /** Log probabilities of the output tokens, when requested */
+  logprobs?: TokenLogprob[];
+}
+
+/**
+ * Log probability of one output token
+ * @interface TokenLogprob
+ */
+export interface TokenLogprob {
+  /** Token text */
+  token: string;
+  /** Log probability */
+  logprob: number;
+  /** Most likely alternatives at this position, when topLogprobs was requested */
+  topLogprobs?: Array<{ token: string; logprob: number }>;
+}
+
+/**
+ * Event emitted by AIModel.streamEvents()
+ * - `text_delta`: a piece of generated text
+ * - `tool_call_delta`: a fragment of a tool call (merged by `index`)
+ * - `usage`: token usage so far
+ * - `finish`: the complete response
+ * - `error`: the request failed (the error is thrown afterwards)
+ */
+export type StreamEvent =
+  | { type: 'text_delta'; delta: string }
+  | { type: 'tool_call_delta'; index: number; id?: string; name?: string; arguments?: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'finish'; response: AIResponse }
+  | { type: 'error'; error: AIError };
+
+/**
+ * AI response with parsed and validated structured data
+ * @interface StructuredResponse
+ */
+export interface StructuredResponse<T> extends AIResponse {
+  /** Parsed JSON output */
+  data: T;
+  /** Number of attempts needed (1 = valid on first try) */
+  attempts: number;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Context attached to library errors
+ * @interface AIErrorOptions
+ */
+export interface AIErrorOptions {
+  /** HTTP status code */
+  status?: number;
+  /** Provider-specific error code or type */
+  code?: string;
+  /** Provider name */
+  provider?: string;
+  /** Model the request was for */
+  model?: string;
+  /** Provider request ID, for support tickets */
+  requestId?: string;
+  /** Number of attempts made */
+  attempts?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the library
+ * @class AIError
+ * @example
+ * try {
+ *   await ai.sendTextMessage('Hello');
+ * } catch (error) {
+ *   if (error instanceof RateLimitError) {
+ *     await sleep(error.retryAfterMs ?? 10000);
+ *   } else if (error instanceof AIError) {
+ *     console.error(error.provider, error.status, error.requestId);
+ *   }
+ * }
+ */
+export class AIError extends Error {
+  /** HTTP status code */
+  readonly status?: number;
+  /** Provider-specific error code or type */
+  readonly code?: string;
+  /** Provider name */
+  provider?: string;
+  /** Model the request was for */
+  model?: string;
+  /** Provider request ID */
+  readonly requestId?: string;
+  /** Number of attempts made */
+  attempts?: number;
+
+  /**
+   * @param message - Error message
+   * @param options - Error context
+   */
+  constructor(message: string, options: AIErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.provider = options.provider;
+    this.model = options.model;
+    this.requestId = options.requestId;
+    this.attempts = options.attempts;
+  }
+}
+
+/** Invalid or missing API key, or no permission for the resource (401/403) */
+export class AuthenticationError extends AIError {}
+
+/**
+ * Too many requests or quota exhausted (429)
+ * @class RateLimitError
+ */
+export class RateLimitError extends AIError {
+  /** How long the provider asked to wait, if it said */
+  readonly retryAfterMs?: number;
+
+  /**
+   * @param message - Error message
+   * @param options - Error context plus the requested wait
+   */
+  constructor(message: string, options: AIErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** Conversation does not fit in the model's context window */
+export class ContextLengthExceededError extends AIError {}
+
+/** Input or output was blocked by the provider's content filter */
+export class ContentFilterError extends AIError {}
+
+/** Request took longer than the configured timeout */
+export class TimeoutError extends AIError {}
+
+/** Request was cancelled through its AbortSignal */
+export class AbortError extends AIError {}
+
+/** Provider is down, overloaded or unreachable (5xx and network failures) */
+export class ProviderUnavailableError extends AIError {}
+
+/** Invalid configuration, arguments or request */
+export class ValidationError extends AIError {}
+
+/** A call could not get a rate-limiter slot: the queue was full ('queue_full') or the wait too long ('queue_timeout') */
+export class RateLimitQueueError extends AIError {}
+
+/**
+ * The instance's spend or token budget has been used up
+ * @class BudgetExceededError
+ */
+export class BudgetExceededError extends AIError {
+  /**
+   * @param message - Error message
+   * @param spend - Spend at the time of the rejected request
+   * @param budget - Configured budget
+   */
+  constructor(message: string, readonly spend: SpendSummary, readonly budget: Budget) {
+    super(message, { code: 'budget_exceeded' });
+  }
+}
+
+/** Provider error codes that identify the error class regardless of status */
+const ERROR_CODE_CLASSES: Record<string, new (message: string, options?: AIErrorOptions) => AIError> = {
+  invalid_api_key: AuthenticationError,
+  authentication_error: AuthenticationError,
+  permission_error: AuthenticationError,
+  rate_limit_exceeded: RateLimitError,
+  rate_limit_error: RateLimitError,
+  insufficient_quota: RateLimitError,
+  context_length_exceeded: ContextLengthExceededError,
+  content_filter: ContentFilterError,
+  content_policy_violation: ContentFilterError,
+  overloaded_error: ProviderUnavailableError,
+  api_error: ProviderUnavailableError,
+  server_error: ProviderUnavailableError,
+};
+
+/**
+ * Convert any failure into the matching AIError subclass
+ * Uses the HTTP status, provider error code and message; keeps the original as `cause`
+ * @param error - Thrown value
+ * @param context - Provider, model and attempt details to attach
+ */
+function toAIError(error: unknown, context: AIErrorOptions = {}): AIError {
+  if (error instanceof AIError) {
+    error.provider = error.provider ?? context.provider;
+    error.model = error.model ?? context.model;
+    error.attempts = error.attempts ?? context.attempts;
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = error as { code?: unknown; type?: unknown; request_id?: unknown; name?: unknown } | null;
+  const code = [details?.code, details?.type].find((value): value is string => typeof value === 'string');
+  const status = getErrorStatus(error);
+  const requestId = (typeof details?.request_id === 'string' ? details.request_id : undefined)
+    ?? getErrorHeader(error, 'x-request-id')
+    ?? getErrorHeader(error, 'request-id');
+  const options: AIErrorOptions = { ...context, status, code, requestId, cause: error };
+
+  if (/context.length|context window|maximum context|too many tokens|prompt is too long/i.test(message)) {
+    return new ContextLengthExceededError(message, options);
+  }
+  if (code && ERROR_CODE_CLASSES[code]) {
+    const ErrorClass = ERROR_CODE_CLASSES[code];
+    return ErrorClass === RateLimitError
+      ? new RateLimitError(message, { ...options, retryAfterMs: getRetryAfterMs(error) })
+      : new ErrorClass(message, options);
+  }
+
+  switch (true) {
+    case status === 401 || status === 403:
+      return new AuthenticationError(message, options);
+    case status === 429:
+      return new RateLimitError(message, { ...options, retryAfterMs: getRetryAfterMs(error) });
+    case status === 408:
+      return new TimeoutError(message, options);
+    case status === 413:
+      return new ContextLengthExceededError(message, options);
+    case status !== undefined && status >= 500:
+      return new ProviderUnavailableError(message, options);
+    case status !== undefined && status >= 400:
+      return new ValidationError(message, options);
+    case status === undefined && /timeout|timed out/i.test(`${details?.name} ${message}`):
+      return new TimeoutError(message, options);
+    case status === undefined && isNetworkError(error):
+      // No HTTP response at all - connection refused, DNS failure, reset...
+      return new ProviderUnavailableError(message, options);
+    default:
+      return new AIError(message, options);
+  }
 }
 
 // ============================================
 // LOGGING SYSTEM
 // ============================================
 
+/** Log severity, lowest first */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Numeric order of log levels for filtering */
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Level used when a log call does not pass one: errors are `error`,
+ * configuration changes `info`, request/response traffic `debug`
+ */
+function defaultLogLevel(type: string): LogLevel {
+  if (type === 'ERROR') return 'error';
+  if (type === 'CONFIG') return 'info';
+  return 'debug';
+}
+
 /**
  * Logger interface for flexible logging implementations
  * @interface Logger
@@ -123,103 +852,405 @@ export interface Logger {
    * @param type - Log category
    * @param message - Log message
    * @param data - Optional additional data
+   * @param level - Severity (default: derived from the category)
    */
-  log(type: string, message: string, data?: unknown): void;
+  log(type: string, message: string, data?: unknown, level?: LogLevel): void;
   
   /**
    * Enable/disable logging
    * @param enabled - Logging state
    */
   enable(enabled: boolean): void;
+
+  /**
+   * Set the minimum level that is written
+   * @param level - Minimum log level
+   */
+  setLevel?(level: LogLevel): void;
 }
 
 /**
- * Default console logger with colored output
- * @class DefaultLogger
- * @implements {Logger}
+ * What the redaction layer masks before anything is logged
+ * @interface RedactionOptions
  */
-export class DefaultLogger implements Logger {
-  private enabled = false;
-  
-  private readonly colors = {
-    REQUEST: '\x1b[36m',    // Cyan
-    RESPONSE: '\x1b[32m',   // Green
-    STREAM: '\x1b[33m',     // Yellow
-    ERROR: '\x1b[31m',      // Red
-    CONFIG: '\x1b[35m',     // Magenta
-    MESSAGE: '\x1b[34m',    // Blue
-    reset: '\x1b[0m',
-  };
+export interface RedactionOptions {
+  /** Mask API keys, bearer tokens and secret-named fields (default: true) */
+  apiKeys?: boolean;
+  /** Mask email addresses (default: true) */
+  emails?: boolean;
+  /** Mask phone numbers (default: true) */
+  phoneNumbers?: boolean;
+  /** Additional patterns to mask */
+  patterns?: RegExp[];
+  /** Keep message/response previews and tool arguments; false omits them (default: true) */
+  contentPreviews?: boolean;
+}
+
+/** Field names whose values are always secrets */
+const SECRET_FIELD = /^(api[-_]?key|authorization|x-api-key|password|secret|access[-_]?token)$/i;
+/** Field names that carry conversation content */
+const CONTENT_FIELD = /Preview$|^arguments$/;
+const API_KEY_PATTERNS = [/\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/gi];
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PATTERN = /(?<![\w.:-])\+?\d[\d\s().-]{7,}\d(?![\w.:-])/g;
+
+/**
+ * Masks secrets and personal data in log messages and data
+ * @class Redactor
+ * @example
+ * const redactor = new Redactor({ patterns: [/\bACME-\d{6}\b/g], contentPreviews: false });
+ * redactor.redact({ apiKey: 'sk-...', note: 'mail me at jane@example.com' });
+ * // { apiKey: '[REDACTED]', note: 'mail me at [EMAIL]' }
+ */
+export class Redactor {
+  private readonly patterns: Array<[RegExp, (match: string) => string]> = [];
 
   /**
-   * Log with colored formatting and structured data
-   * @param type - Log type for color coding
-   * @param message - Main log message
-   * @param data - Optional structured data
+   * @param options - What to mask (secrets, emails and phone numbers by default)
    */
-  log(type: string, message: string, data?: unknown): void {
-    if (!this.enabled) return;
-
-    const timestamp = new Date().toISOString();
-    const color = this.colors[type as keyof typeof this.colors] || this.colors.reset;
-    
-    console.log(`\n${color}═══════════════════════════════════════════════════════${this.colors.reset}`);
-    console.log(`${color}[${timestamp}] ${type}${this.colors.reset}`);
-    console.log(`${color}${message}${this.colors.reset}`);
-    
-    if (data) {
-      console.log(JSON.stringify(data, null, 2));
+  constructor(private readonly options: RedactionOptions = {}) {
+    if (options.apiKeys !== false) {
+      API_KEY_PATTERNS.forEach(pattern => this.patterns.push([pattern, () => '[API_KEY]']));
+    }
+    if (options.emails !== false) {
+      this.patterns.push([EMAIL_PATTERN, () => '[EMAIL]']);
+    }
+    if (options.phoneNumbers !== false) {
+      // 9-15 digits, and not an ISO date
+      this.patterns.push([PHONE_PATTERN, match => {
+        const digits = match.replace(/\D/g, '').length;
+        return digits >= 9 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(match) ? '[PHONE]' : match;
+      }]);
+    }
+    for (const pattern of options.patterns || []) {
+      const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+      this.patterns.push([new RegExp(pattern.source, flags), () => '[REDACTED]']);
     }
-    
-    console.log(`${color}═══════════════════════════════════════════════════════${this.colors.reset}\n`);
   }
 
   /**
-   * Enable or disable logging output
-   * @param enabled - Whether logging should be active
+   * Mask sensitive substrings in a text
+   * @param text - Text to redact
+   * @returns Redacted text
    */
-  enable(enabled: boolean): void {
-    this.enabled = enabled;
+  redactText(text: string): string {
+    return this.patterns.reduce(
+      (result, [pattern, replace]) => result.replace(pattern, replace),
+      text
+    );
+  }
+
+  /**
+   * Redact strings anywhere in a value, masking secret-named fields entirely
+   * @param value - Log data
+   * @returns Redacted copy
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, undefined, new WeakSet()) as T;
+  }
+
+  private redactValue(value: unknown, key: string | undefined, seen: WeakSet<object>): unknown {
+    if (key !== undefined) {
+      if (this.options.apiKeys !== false && SECRET_FIELD.test(key) && value) return '[REDACTED]';
+      if (this.options.contentPreviews === false && CONTENT_FIELD.test(key)) return '[omitted]';
+    }
+
+    if (typeof value === 'string') return this.redactText(value);
+    if (!value || typeof value !== 'object') return value;
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, undefined, seen));
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactText(value.message) };
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, this.redactValue(item, name, seen)])
+    );
   }
 }
 
-// ============================================
-// PROVIDER MANAGEMENT
-// ============================================
+/**
+ * A log record after level filtering and redaction
+ * @interface LogEntry
+ */
+export interface LogEntry {
+  /** ISO timestamp */
+  timestamp: string;
+  /** Severity */
+  level: LogLevel;
+  /** Log category (REQUEST, RESPONSE, ERROR, ...) */
+  type: string;
+  /** Log message */
+  message: string;
+  /** Additional data */
+  data?: unknown;
+}
 
 /**
- * Global registry for AI provider configurations
- * Manages built-in providers and allows custom provider registration
- * @class ProviderRegistry
- * @example
- * // Register custom provider
- * ProviderRegistry.registerProvider('my-ai', {
- *   name: 'My AI Service',
- *   baseURL: 'https://api.my-ai.com/v1',
- *   defaultModel: 'my-model-v1'
- * });
+ * Options shared by the built-in loggers
+ * @interface LoggerOptions
  */
-export class ProviderRegistry {
-  /** Internal storage of provider configurations */
-  private static providers: Map<string, AIProviderConfig> = new Map([
-    ['openrouter', {
-      name: 'OpenRouter',
+export interface LoggerOptions {
+  /** Minimum level written (default: 'debug') */
+  level?: LogLevel;
+  /** Redaction settings, or false to log everything verbatim (default: mask secrets, emails and phone numbers) */
+  redaction?: RedactionOptions | false;
+}
+
+/**
+ * Base class for loggers: handles enabling, level filtering and redaction,
+ * leaving only the output format to subclasses
+ * @class BaseLogger
+ * @implements {Logger}
+ */
+export abstract class BaseLogger implements Logger {
+  private enabled = false;
+  private level: LogLevel;
+  private readonly redactor?: Redactor;
+
+  /**
+   * @param options - Minimum level and redaction settings
+   */
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level || 'debug';
+    if (options.redaction !== false) {
+      this.redactor = new Redactor(options.redaction);
+    }
+  }
+
+  /**
+   * Log a message if enabled and at or above the minimum level
+   * @param type - Log category
+   * @param message - Log message
+   * @param data - Optional structured data
+   * @param level - Severity (default: derived from the category)
+   */
+  log(type: string, message: string, data?: unknown, level: LogLevel = defaultLogLevel(type)): void {
+    if (!this.enabled || LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[this.level]) return;
+
+    this.write({
+      timestamp: new Date().toISOString(),
+      level,
+      type,
+      message: this.redactor ? this.redactor.redactText(message) : message,
+      data: this.redactor ? this.redactor.redact(data) : data,
+    });
+  }
+
+  /**
+   * Enable or disable logging output
+   * @param enabled - Whether logging should be active
+   */
+  enable(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Set the minimum level that is written
+   * @param level - Minimum log level
+   */
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  /** Output a filtered, redacted entry */
+  protected abstract write(entry: LogEntry): void;
+}
+
+/**
+ * Default console logger with colored output
+ * @class DefaultLogger
+ * @extends {BaseLogger}
+ */
+export class DefaultLogger extends BaseLogger {
+  private readonly colors = {
+    REQUEST: '\x1b[36m',    // Cyan
+    RESPONSE: '\x1b[32m',   // Green
+    STREAM: '\x1b[33m',     // Yellow
+    ERROR: '\x1b[31m',      // Red
+    CONFIG: '\x1b[35m',     // Magenta
+    MESSAGE: '\x1b[34m',    // Blue
+    TOOL: '\x1b[96m',       // Bright cyan
+    reset: '\x1b[0m',
+  };
+
+  /**
+   * Print an entry with colored formatting and structured data
+   * @param entry - Log entry
+   */
+  protected write({ timestamp, level, type, message, data }: LogEntry): void {
+    const color = this.colors[type as keyof typeof this.colors] || this.colors.reset;
+    
+    console.log(`\n${color}═══════════════════════════════════════════════════════${this.colors.reset}`);
+    console.log(`${color}[${timestamp}] ${level.toUpperCase()} ${type}${this.colors.reset}`);
+    console.log(`${color}${message}${this.colors.reset}`);
+    
+    if (data) {
+      console.log(JSON.stringify(data, null, 2));
+    }
+    
+    console.log(`${color}═══════════════════════════════════════════════════════${this.colors.reset}\n`);
+  }
+}
+
+/**
+ * Structured logger writing one JSON object per line, for log shippers
+ * @class JsonLinesLogger
+ * @extends {BaseLogger}
+ * @example
+ * const logger = new JsonLinesLogger({ level: 'info', redaction: { contentPreviews: false } });
+ * logger.enable(true);
+ * const ai = new AIModel({ apiKey, debug: true }, logger);
+ * // {"timestamp":"...","level":"info","type":"CONFIG","message":"🚀 AIModel initialized","data":{...}}
+ */
+export class JsonLinesLogger extends BaseLogger {
+  private readonly output: (line: string) => void;
+
+  /**
+   * @param options - Logger options plus `output` for each line (default: stdout)
+   */
+  constructor(options: LoggerOptions & { output?: (line: string) => void } = {}) {
+    super(options);
+    this.output = options.output || (line => process.stdout.write(`${line}\n`));
+  }
+
+  protected write(entry: LogEntry): void {
+    this.output(JSON.stringify(entry));
+  }
+}
+
+// ============================================
+// PROVIDER MANAGEMENT
+// ============================================
+
+/**
+ * Global registry for AI provider configurations
+ * Manages built-in providers and allows custom provider registration
+ * @class ProviderRegistry
+ * @example
+ * // Register custom provider
+ * ProviderRegistry.registerProvider('my-ai', {
+ *   name: 'My AI Service',
+ *   baseURL: 'https://api.my-ai.com/v1',
+ *   defaultModel: 'my-model-v1'
+ * });
+ */
+export class ProviderRegistry {
+  /** Rate limiters shared by every AIModel instance that calls a provider */
+  private static rateLimiters: Map<string, RateLimiter> = new Map();
+
+  /** Internal storage of provider configurations */
+  private static providers: Map<string, AIProviderConfig> = new Map<string, AIProviderConfig>([
+    ['openrouter', {
+      name: 'OpenRouter',
       baseURL: 'https://openrouter.ai/api/v1',
       defaultModel: 'mistralai/mistral-small-3.1-24b-instruct:free',
       headers: {
         'HTTP-Referer': 'https://your-app-url.com',
         'X-Title': 'Your App Name',
-      }
+      },
+      supportsResponseFormat: true,
+      supportsStreamUsage: true,
+      pricing: {
+        'mistralai/mistral-small-3.1-24b-instruct:free': { input: 0, output: 0 },
+      },
+      contextWindows: {
+        'mistralai/mistral-small-3.1-24b-instruct:free': 96000,
+      },
+      vision: {
+        'mistralai/mistral-small-3.1-24b-instruct:free': true,
+      },
     }],
     ['openai', {
       name: 'OpenAI',
       baseURL: 'https://api.openai.com/v1',
       defaultModel: 'gpt-3.5-turbo',
+      supportsResponseFormat: true,
+      supportsStreamUsage: true,
+      supportsBatch: true,
+      batchPriceFactor: 0.5,
+      pricing: {
+        'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+        'gpt-4': { input: 30, output: 60 },
+        'gpt-4-turbo': { input: 10, output: 30 },
+        'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+        'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+        'o1': { input: 15, output: 60, cachedInput: 7.5 },
+        'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+        'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+        'text-embedding-3-small': { input: 0.02, output: 0 },
+        'text-embedding-3-large': { input: 0.13, output: 0 },
+        'text-embedding-ada-002': { input: 0.1, output: 0 },
+      },
+      contextWindows: {
+        'gpt-3.5-turbo': 16385,
+        'gpt-4': 8192,
+        'gpt-4-32k': 32768,
+        'gpt-4-turbo': 128000,
+        'gpt-4-turbo-preview': 128000,
+        'gpt-4o': 128000,
+        'gpt-4o-mini': 128000,
+        'gpt-4.1': 1047576,
+        'gpt-4.1-mini': 1047576,
+        'gpt-4.1-nano': 1047576,
+        'o1': 200000,
+        'o1-mini': 128000,
+        'o3-mini': 200000,
+      },
+      vision: {
+        'gpt-3.5-turbo': false,
+        'gpt-4': false,
+        'gpt-4-32k': false,
+        'gpt-4-turbo': true,
+        'gpt-4-turbo-preview': false,
+        'gpt-4-vision-preview': true,
+        'gpt-4.5-preview': true,
+        'gpt-4o': true,
+        'gpt-4o-mini': true,
+        'gpt-4.1': true,
+        'gpt-4.1-mini': true,
+        'gpt-4.1-nano': true,
+        'o1': true,
+        'o1-preview': false,
+        'o1-mini': false,
+        'o3-mini': false,
+      },
+      imageLimits: { maxBytes: 20 * 1024 * 1024 },
+      embeddingModel: 'text-embedding-3-small',
+      embeddingLimits: { maxInputs: 2048, maxTokens: 300000, maxInputTokens: 8191 },
     }],
     ['anthropic', {
       name: 'Anthropic',
       baseURL: 'https://api.anthropic.com/v1',
       defaultModel: 'claude-3-haiku-20240307',
+      protocol: 'anthropic',
+      supportsBatch: true,
+      batchPriceFactor: 0.5,
+      pricing: {
+        'claude-3-haiku': { input: 0.25, output: 1.25, cachedInput: 0.03 },
+        'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+        'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+        'claude-3-opus': { input: 15, output: 75, cachedInput: 1.5 },
+      },
+      contextWindows: {
+        'claude-3-haiku': 200000,
+        'claude-3-sonnet': 200000,
+        'claude-3-opus': 200000,
+        'claude-3-5-haiku': 200000,
+        'claude-3-5-sonnet': 200000,
+        'claude-3-7-sonnet': 200000,
+      },
+      vision: {
+        'claude-3-haiku': true,
+        'claude-3-sonnet': true,
+        'claude-3-opus': true,
+        'claude-3-5-sonnet': true,
+        'claude-3-7-sonnet': true,
+      },
+      imageLimits: { maxBytes: 5 * 1024 * 1024 },
     }],
   ]);
 
@@ -227,11 +1258,11 @@ export class ProviderRegistry {
    * Register a new AI provider or update existing one
    * @param id - Unique provider identifier
    * @param config - Provider configuration
-   * @throws {Error} If configuration is invalid
+   * @throws {ValidationError} If configuration is invalid
    */
   static registerProvider(id: string, config: AIProviderConfig): void {
     if (!id || !config.name || !config.baseURL || !config.defaultModel) {
-      throw new Error('Provider configuration requires id, name, baseURL, and defaultModel');
+      throw new ValidationError('Provider configuration requires id, name, baseURL, and defaultModel');
     }
     this.providers.set(id, config);
   }
@@ -282,195 +1313,4142 @@ export class ProviderRegistry {
    * @returns True if provider was removed
    */
   static removeProvider(id: string): boolean {
+    this.rateLimiters.delete(id);
     return this.providers.delete(id);
   }
-}
-
-// ============================================
-// MAIN AI MODEL CLASS
-// ============================================
-
-/**
- * Primary class for interacting with AI models across multiple providers
- * Supports chat completion, streaming, image analysis, and conversation management
- * @class AIModel
- * @example
- * // Basic usage
- * const ai = new AIModel({
- *   apiKey: 'your-key',
- *   provider: 'openrouter',
- *   debug: true
- * });
- * 
- * // Chain messages and send
- * const response = await ai
- *   .addUserMessage('Hello!')
- *   .addUserMessage('How are you?')
- *   .send();
- * 
- * // Quick single message
- * const quickResponse = await ai.sendTextMessage('Tell me a joke');
- */
-export class AIModel {
-  private client: OpenAI;
-  private messages: Message[] = [];
-  private config: Required<Omit<AIModelConfig, 'apiKey' | 'provider'>>;
-  private provider: AIProviderConfig;
-  private logger: Logger;
 
   /**
-   * Create new AI model instance
-   * @param config - Model configuration
-   * @param logger - Optional custom logger
-   * @throws {Error} If API key missing or provider not found
+   * Attach a rate limiter to a provider, shared by all AIModel instances using it
+   * @param id - Provider identifier
+   * @param limiter - Limiter to attach, or undefined to remove it
+   * @example
+   * ProviderRegistry.setRateLimiter('openai', new RateLimiter({
+   *   requestsPerMinute: 500,
+   *   tokensPerMinute: 200000,
+   *   maxConcurrent: 10,
+   * }));
    */
-  constructor(config: AIModelConfig, logger?: Logger) {
-    // Validate required configuration
-    if (!config.apiKey?.trim()) {
-      throw new Error('API key is required and cannot be empty');
-    }
-
-    // Initialize logging
-    this.logger = logger || new DefaultLogger();
-    this.logger.enable(!!config.debug);
-
-    // Resolve provider configuration
-    const providerId = config.provider || 'openrouter';
-    const provider = ProviderRegistry.getProvider(providerId);
-    
-    if (!provider) {
-      const available = Array.from(ProviderRegistry.getAllProviders().keys()).join(', ');
-      throw new Error(
-        `Provider '${providerId}' not found. Available providers: ${available}. ` +
-        'Use ProviderRegistry.registerProvider() to add custom providers.'
-      );
+  static setRateLimiter(id: string, limiter: RateLimiter | undefined): void {
+    if (limiter) {
+      this.rateLimiters.set(id, limiter);
+    } else {
+      this.rateLimiters.delete(id);
     }
-    
-    this.provider = provider;
-
-    // Initialize OpenAI client (works with any OpenAI-compatible API)
-    this.client = new OpenAI({ 
-      apiKey: config.apiKey,
-      baseURL: provider.baseURL,
-      defaultHeaders: provider.headers,
-      timeout: config.timeout || 30000,
-    });
-    
-    // Set configuration with defaults
-    this.config = {
-      model: config.model || provider.defaultModel,
-      temperature: config.temperature ?? 0.7,
-      maxTokens: config.maxTokens || 1000,
-      systemPrompt: config.systemPrompt || '',
-      debug: config.debug ?? false,
-      retryAttempts: config.retryAttempts || 3,
-      timeout: config.timeout || 30000,
-    };
-
-    this.logger.log('CONFIG', '🚀 AIModel initialized', {
-      provider: provider.name,
-      model: this.config.model,
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-      systemPrompt: this.config.systemPrompt.substring(0, 100) + '...',
-    });
   }
 
-  // ============================================
-  // CONFIGURATION MANAGEMENT
-  // ============================================
-
   /**
-   * Set or update the system prompt (context/role for AI)
-   * @param prompt - System prompt text
-   * @returns This instance for chaining
-   * @example
-   * ai.setSystemPrompt('You are a helpful assistant that speaks like a pirate.');
+   * Get the rate limiter attached to a provider
+   * @param id - Provider identifier
+   * @returns Limiter or undefined if calls are not limited
    */
-  setSystemPrompt(prompt: string): this {
-    this.config.systemPrompt = prompt;
-    this.logger.log('CONFIG', '📝 System prompt updated', {
-      promptLength: prompt.length,
-      promptPreview: prompt.substring(0, 150) + '...',
-    });
-    return this;
+  static getRateLimiter(id: string): RateLimiter | undefined {
+    return this.rateLimiters.get(id);
   }
 
   /**
-   * Get current system prompt
-   * @returns Current system prompt
+   * Set or override token prices for a model
+   * @param id - Provider identifier
+   * @param model - Model ID (also matches dated versions starting with it)
+   * @param pricing - Prices in USD per million tokens
+   * @returns True if provider was updated, false if not found
+   * @example
+   * ProviderRegistry.setModelPricing('openai', 'gpt-4o', { input: 2.5, output: 10, cachedInput: 1.25 });
    */
-  getSystemPrompt(): string {
-    return this.config.systemPrompt;
+  static setModelPricing(id: string, model: string, pricing: ModelPricing): boolean {
+    const existing = this.providers.get(id);
+    if (!existing) return false;
+
+    this.providers.set(id, { ...existing, pricing: { ...existing.pricing, [model]: pricing } });
+    return true;
   }
 
   /**
-   * Update model configuration
-   * @param config - Configuration changes
-   * @returns This instance for chaining
-   * @example
-   * ai.updateConfig({
-   *   temperature: 0.9, // More creative
-   *   maxTokens: 2000   // Longer responses
-   * });
+   * Look up token prices for a model
+   * Exact matches win; otherwise a dated version matches its base ID, so
+   * 'gpt-4o-2024-08-06' is priced as 'gpt-4o'. Other models stay unpriced.
+   * @param id - Provider identifier
+   * @param model - Model ID
+   * @returns Pricing or undefined if unknown
    */
-  updateConfig(config: Partial<Omit<AIModelConfig, 'apiKey' | 'provider'>>): this {
-    const oldConfig = { ...this.config };
-    this.config = { ...this.config, ...config };
-    
-    this.logger.log('CONFIG', '⚙️ Configuration updated', {
-      changes: config,
-      before: oldConfig,
-      after: this.config,
-    });
-    
-    return this;
+  static getModelPricing(id: string, model: string): ModelPricing | undefined {
+    return findModelEntry(this.providers.get(id)?.pricing, model);
   }
 
   /**
-   * Get current configuration
-   * @returns Read-only copy of current configuration
+   * Look up the context window of a model, matched like getModelPricing()
+   * Unknown models return undefined rather than a related model's (possibly smaller) window
+   * @param id - Provider identifier
+   * @param model - Model ID
+   * @returns Context window in tokens or undefined if unknown
    */
-  getConfig(): Required<Omit<AIModelConfig, 'apiKey' | 'provider'>> {
-    return { ...this.config };
+  static getContextWindow(id: string, model: string): number | undefined {
+    return findModelEntry(this.providers.get(id)?.contextWindows, model);
   }
 
   /**
-   * Enable or disable debug logging
-   * @param enable - Debug state (default: true)
-   * @returns This instance for chaining
+   * Check whether a model accepts image input, matched like getModelPricing()
+   * @param id - Provider identifier
+   * @param model - Model ID
+   * @returns True or false if known, undefined for models not in the catalog
    */
-  enableDebug(enable = true): this {
-    this.config.debug = enable;
-    this.logger.enable(enable);
-    this.logger.log('CONFIG', `🔧 Debug ${enable ? 'enabled' : 'disabled'}`);
-    return this;
+  static supportsImages(id: string, model: string): boolean | undefined {
+    return findModelEntry(this.providers.get(id)?.vision, model);
   }
+}
 
-  // ============================================
-  // MESSAGE MANAGEMENT
-  // ============================================
+/** Version suffixes of a model ID: -2024-08-06, -20240307, -0613 or -latest */
+const MODEL_VERSION_SUFFIX = /-(\d{4}-\d{2}-\d{2}|\d{8}|\d{4}|latest)$/;
 
-  /**
-   * Add message to conversation history
-   * @param content - Message content (text or structured)
-   * @param role - Message sender role
-   * @returns This instance for chaining
-   * @example
-   * // Text message
-   * ai.addMessage('Hello world!', 'user');
-   * 
-   * // Structured message with image
-   * ai.addMessage([
-   *   { type: 'text', text: 'Describe this image' },
-   *   { type: 'image_url', image_url: { url: 'https://example.com/image.jpg' } }
-   * ], 'user');
-   */
-  addMessage(content: string | MessageContent[], role: 'user' | 'assistant' = 'user'): this {
-    this.messages.push({ role, content });
-    
-    const contentPreview = typeof content === 'string' 
-      ? content.substring(0, 200)
+/**
+ * Find a per-model entry by exact ID, or by the ID without its version suffix
+ * Other IDs sharing a prefix (gpt-4-32k, gpt-4.5-preview, o1-mini for 'gpt-4' / 'o1') do not match
+ */
+function findModelEntry<T>(entries: Record<string, T> | undefined, model: string): T | undefined {
+  if (!entries) return undefined;
+  if (Object.hasOwn(entries, model)) return entries[model];
+
+  const base = model.replace(MODEL_VERSION_SUFFIX, '');
+  return base !== model && Object.hasOwn(entries, base) ? entries[base] : undefined;
+}
+
+/**
+ * Calculate the cost of token usage
+ * Cached input and reasoning tokens are billed at their own prices when set
+ * @param usage - Token usage
+ * @param pricing - Prices in USD per million tokens
+ * @returns Cost breakdown in USD
+ * @example
+ * calculateCost({ promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }, { input: 2.5, output: 10 });
+ * // { input: 0.0025, output: 0.005, total: 0.0075 }
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): CostBreakdown {
+  const cached = usage.cachedTokens || 0;
+  const reasoning = usage.reasoningTokens || 0;
+
+  const input = ((usage.promptTokens - cached) * pricing.input
+    + cached * (pricing.cachedInput ?? pricing.input)) / 1_000_000;
+  const output = ((usage.completionTokens - reasoning) * pricing.output
+    + reasoning * (pricing.reasoning ?? pricing.output)) / 1_000_000;
+
+  return { input, output, total: input + output };
+}
+
+/** Multiply every part of a cost, e.g. by a batch price factor */
+function scaleCost(cost: CostBreakdown, factor: number): CostBreakdown {
+  return { input: cost.input * factor, output: cost.output * factor, total: cost.total * factor };
+}
+
+/** Sum two costs; an unknown cost makes the total unknown */
+function addCost(total: CostBreakdown | undefined, round: CostBreakdown | undefined): CostBreakdown | undefined {
+  if (!total || !round) return undefined;
+  return { input: total.input + round.input, output: total.output + round.output, total: total.total + round.total };
+}
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+/**
+ * Tool description sent with a completion request
+ * @interface ToolSpec
+ */
+export interface ToolSpec {
+  /** Tool name */
+  name: string;
+  /** What the tool does */
+  description: string;
+  /** JSON schema for the tool arguments */
+  parameters: JSONSchema;
+}
+
+/**
+ * Provider-neutral chat completion request handed to a transport
+ * @interface TransportRequest
+ */
+export interface TransportRequest extends SamplingOptions {
+  /** Model to use */
+  model: string;
+  /** Complete conversation including system messages */
+  messages: Message[];
+  /** Sampling temperature */
+  temperature: number;
+  /** Maximum tokens in response */
+  maxTokens: number;
+  /** Tools the model may call */
+  tools?: ToolSpec[];
+  /** Tool selection mode */
+  toolChoice?: RequestOptions['toolChoice'];
+  /** Native response format (only set when the provider supports it) */
+  responseFormat?: ResponseFormat;
+  /** Extra HTTP headers for this call, on top of the provider's headers */
+  headers?: Record<string, string>;
+  /** Cancels the HTTP call or stream when aborted */
+  signal?: AbortSignal;
+  /** Receives the HTTP response headers, e.g. for rate-limit adaptation */
+  onHeaders?: (headers: Record<string, string>) => void;
+  /** Spoken reply settings */
+  audio?: AudioOutputOptions;
+}
+
+/**
+ * Provider-neutral chat completion result returned by a transport
+ * @interface TransportResponse
+ */
+export interface TransportResponse {
+  /** Generated text */
+  content: string;
+  /** Tool calls requested by the model */
+  toolCalls: ToolCall[];
+  /** Token usage statistics */
+  usage: TokenUsage;
+  /** Model that generated the response */
+  model: string;
+  /** Why the generation stopped */
+  finishReason?: string;
+  /** Every choice, when n > 1 or logprobs were requested (the fields above describe the first) */
+  choices?: AIChoice[];
+  /** Spoken reply, when requested */
+  audio?: AudioOutput;
+}
+
+/**
+ * Provider-neutral streaming chunk yielded by a transport
+ * @interface TransportChunk
+ */
+export interface TransportChunk {
+  /** Text delta */
+  content?: string;
+  /** Tool call fragments, merged by index */
+  toolCalls?: Array<{ index: number; id?: string; name?: string; arguments?: string }>;
+  /** Token usage reported so far */
+  usage?: Partial<TokenUsage>;
+  /** Model that is generating the response */
+  model?: string;
+  /** Why the generation stopped */
+  finishReason?: string;
+}
+
+/**
+ * Sends completion requests over a provider's wire protocol
+ * Implement this to support a new protocol or to run AIModel without a network
+ * @interface Transport
+ */
+export interface Transport {
+  /**
+   * Run a completion request
+   * @param request - Provider-neutral request
+   * @returns Complete response
+   */
+  complete(request: TransportRequest): Promise<TransportResponse>;
+
+  /**
+   * Open a streaming completion request
+   * Resolves once the stream is open, so connection failures can be retried
+   * @param request - Provider-neutral request
+   * @returns Stream of response chunks
+   */
+  stream(request: TransportRequest): Promise<AsyncIterable<TransportChunk>>;
+
+  /**
+   * Run requests through the provider's asynchronous Batch API (optional)
+   * Resolves once the provider has finished the whole batch
+   * @param requests - Provider-neutral requests
+   * @param options - Polling settings
+   * @returns Response or error per request, in request order
+   */
+  batch?(requests: TransportRequest[], options: TransportBatchOptions): Promise<Array<TransportResponse | Error>>;
+
+  /**
+   * Create embeddings for a list of inputs (optional)
+   * @param request - Model and inputs, already split within the provider's limits
+   * @returns One vector per input, in input order
+   */
+  embed?(request: TransportEmbedRequest): Promise<TransportEmbedResponse>;
+}
+
+/**
+ * Provider-neutral embeddings request passed to a transport
+ * @interface TransportEmbedRequest
+ */
+export interface TransportEmbedRequest {
+  /** Embedding model */
+  model: string;
+  /** Texts to embed */
+  input: string[];
+  /** Output vector size, for models that support shortening */
+  dimensions?: number;
+  /** Extra HTTP headers for this call */
+  headers?: Record<string, string>;
+  /** Cancels the HTTP call when aborted */
+  signal?: AbortSignal;
+  /** Receives the HTTP response headers */
+  onHeaders?: (headers: Record<string, string>) => void;
+}
+
+/**
+ * Provider-neutral embeddings result returned by a transport
+ * @interface TransportEmbedResponse
+ */
+export interface TransportEmbedResponse {
+  /** One vector per input, in input order */
+  embeddings: number[][];
+  /** Token usage statistics */
+  usage: TokenUsage;
+  /** Model that created the embeddings */
+  model: string;
+}
+
+/**
+ * Settings for a native batch run
+ * @interface TransportBatchOptions
+ */
+export interface TransportBatchOptions {
+  /** Time between status checks in milliseconds */
+  pollInterval: number;
+  /** Stops polling and cancels the batch when aborted */
+  signal?: AbortSignal;
+  /** Called after each status check with the number of finished and failed requests */
+  onProgress?: (progress: { completed: number; failed: number }) => void;
+}
+
+/**
+ * Settings passed to transport factories
+ * @interface TransportOptions
+ */
+export interface TransportOptions {
+  /** API key for authentication */
+  apiKey: string;
+  /** Provider configuration */
+  provider: AIProviderConfig;
+  /** Request timeout in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Creates a transport for a provider
+ * @param options - Connection settings
+ * @returns Transport instance
+ */
+export type TransportFactory = (options: TransportOptions) => Transport;
+
+/** Map OpenAI usage, including cache hits and reasoning tokens */
+function mapOpenAIUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/** Chat Completions parameters, plus the untyped extraBody fields */
+type OpenAIRequestParams = Omit<OpenAI.ChatCompletionCreateParamsNonStreaming, 'stream'> & Record<string, unknown>;
+
+/**
+ * Default transport for OpenAI-compatible Chat Completions APIs (uses the official SDK)
+ * @class OpenAITransport
+ * @implements {Transport}
+ */
+export class OpenAITransport implements Transport {
+  private client: OpenAI;
+  private readonly includeStreamUsage: boolean;
+
+  /**
+   * @param options - Connection settings
+   */
+  constructor({ apiKey, provider, timeout }: TransportOptions) {
+    this.includeStreamUsage = !!provider.supportsStreamUsage;
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: provider.baseURL,
+      defaultHeaders: provider.headers,
+      timeout,
+      // RetryPolicy is the only retry layer
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: TransportRequest): Promise<TransportResponse> {
+    const { data: completion, response } = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    }, { signal: request.signal, headers: request.headers }).withResponse();
+    request.onHeaders?.(Object.fromEntries(response.headers.entries()));
+    return this.mapCompletion(completion, request);
+  }
+
+  async stream(request: TransportRequest): Promise<AsyncIterable<TransportChunk>> {
+    const { data: stream, response } = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      ...(this.includeStreamUsage && { stream_options: { include_usage: true } }),
+    }, { signal: request.signal, headers: request.headers }).withResponse();
+    request.onHeaders?.(Object.fromEntries(response.headers.entries()));
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        yield {
+          usage: chunk.usage ? mapOpenAIUsage(chunk.usage) : undefined,
+          content: choice?.delta?.content || undefined,
+          toolCalls: choice?.delta?.tool_calls?.map(part => ({
+            index: part.index,
+            id: part.id,
+            name: part.function?.name,
+            arguments: part.function?.arguments,
+          })),
+          model: chunk.model,
+          finishReason: choice?.finish_reason || undefined,
+        };
+      }
+    })();
+  }
+
+  async batch(
+    requests: TransportRequest[],
+    { pollInterval, signal, onProgress }: TransportBatchOptions
+  ): Promise<Array<TransportResponse | Error>> {
+    const lines = requests.map((request, index) => JSON.stringify({
+      custom_id: String(index),
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: this.buildParams(request),
+    }));
+    const file = await this.client.files.create({
+      file: await toFile(Buffer.from(lines.join('\n')), 'batch.jsonl'),
+      purpose: 'batch',
+    }, { signal });
+
+    let batch = await this.client.batches.create({
+      input_file_id: file.id,
+      endpoint: '/v1/chat/completions',
+      completion_window: '24h',
+    }, { signal });
+
+    try {
+      while (!['completed', 'failed', 'expired', 'cancelled'].includes(batch.status)) {
+        await sleep(pollInterval, signal);
+        batch = await this.client.batches.retrieve(batch.id, { signal });
+        onProgress?.({
+          completed: (batch.request_counts?.completed ?? 0) + (batch.request_counts?.failed ?? 0),
+          failed: batch.request_counts?.failed ?? 0,
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) await this.client.batches.cancel(batch.id).catch(() => undefined);
+      throw error;
+    }
+
+    if (batch.status === 'failed') {
+      throw new ValidationError(`Batch ${batch.id} failed: ${batch.errors?.data?.[0]?.message || 'rejected by the provider'}`, {
+        code: batch.errors?.data?.[0]?.code,
+      });
+    }
+
+    // Requests without a line in either file were not run (e.g. the batch expired first)
+    const results: Array<TransportResponse | Error> = requests.map(
+      () => new AIError(`Batch ${batch.id} ended (${batch.status}) without running this request`, { code: 'batch_incomplete' })
+    );
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) continue;
+      const text = await (await this.client.files.content(fileId, { signal })).text();
+
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        const { custom_id, response, error } = JSON.parse(line);
+        if (response?.status_code === 200) {
+          results[Number(custom_id)] = this.mapCompletion(response.body, requests[Number(custom_id)]);
+        } else {
+          const details = error ?? response?.body?.error;
+          results[Number(custom_id)] = Object.assign(new Error(details?.message || 'Batch request failed'), {
+            status: response?.status_code,
+            code: details?.code ?? details?.type,
+          });
+        }
+      }
+    }
+    return results;
+  }
+
+  async embed(request: TransportEmbedRequest): Promise<TransportEmbedResponse> {
+    const { data: result, response } = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+      dimensions: request.dimensions,
+      encoding_format: 'float',
+    }, { signal: request.signal, headers: request.headers }).withResponse();
+    request.onHeaders?.(Object.fromEntries(response.headers.entries()));
+
+    return {
+      embeddings: [...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+      usage: {
+        promptTokens: result.usage.prompt_tokens,
+        completionTokens: 0,
+        totalTokens: result.usage.total_tokens,
+      },
+      model: result.model,
+    };
+  }
+
+  private mapCompletion(completion: OpenAI.ChatCompletion, request: TransportRequest): TransportResponse {
+    const choice = completion.choices[0];
+    const audio = choice?.message?.audio;
+    const response: TransportResponse = {
+      // Spoken replies carry their text in the transcript
+      content: choice?.message?.content || audio?.transcript || '',
+      toolCalls: choice?.message?.tool_calls || [],
+      usage: completion.usage
+        ? mapOpenAIUsage(completion.usage)
+        : { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: completion.model,
+      finishReason: choice?.finish_reason,
+    };
+    if (audio) {
+      response.audio = {
+        id: audio.id,
+        data: audio.data,
+        format: request.audio?.format || 'mp3',
+        transcript: audio.transcript,
+        expiresAt: audio.expires_at,
+      };
+    }
+
+    if (completion.choices.length > 1 || choice?.logprobs) {
+      response.choices = completion.choices.map(item => ({
+        index: item.index,
+        content: item.message?.content || '',
+        finishReason: item.finish_reason,
+        toolCalls: item.message?.tool_calls?.length ? item.message.tool_calls : undefined,
+        logprobs: item.logprobs?.content?.map(entry => ({
+          token: entry.token,
+          logprob: entry.logprob,
+          topLogprobs: entry.top_logprobs?.length
+            ? entry.top_logprobs.map(({ token, logprob }) => ({ token, logprob }))
+            : undefined,
+        })),
+      }));
+    }
+    return response;
+  }
+
+  /**
+   * Chat Completions only accepts PDFs as `file` parts, so text documents are
+   * inlined as text parts wrapped in a <document> tag
+   * @throws {ValidationError} For other binary document types
+   */
+  private convertMessage(message: Message): OpenAI.ChatCompletionMessageParam {
+    if (!Array.isArray(message.content) || !message.content.some(part => part.type === 'file')) {
+      return message as OpenAI.ChatCompletionMessageParam;
+    }
+
+    const content = message.content.map((part): MessageContent => {
+      const match = part.file?.file_data?.match(/^data:([^;]+);base64,(.*)$/);
+      if (part.type !== 'file' || !match || match[1] === 'application/pdf') return part;
+
+      const [, mediaType, data] = match;
+      if (!mediaType.startsWith('text/') && mediaType !== 'application/json') {
+        throw new ValidationError(`OpenAI accepts PDF documents only, not ${mediaType}`, { code: 'unsupported_content' });
+      }
+      const name = part.file?.filename ? ` name="${part.file.filename}"` : '';
+      const text = Buffer.from(data, 'base64').toString('utf8');
+      return { type: 'text', text: `<document${name}>\n${text}\n</document>` };
+    });
+    return { ...message, content } as OpenAI.ChatCompletionMessageParam;
+  }
+
+  private buildParams(request: TransportRequest): OpenAIRequestParams {
+    const { toolChoice, responseFormat } = request;
+    const params = {
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      stop: request.stop,
+      seed: request.seed,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      logit_bias: request.logitBias,
+      n: request.n,
+      logprobs: request.logprobs,
+      top_logprobs: request.topLogprobs,
+      user: request.user,
+      ...(request.audio && {
+        modalities: ['text', 'audio'] as Array<'text' | 'audio'>,
+        audio: { voice: request.audio.voice, format: request.audio.format || 'mp3' },
+      }),
+    };
+
+    const toolParams = request.tools?.length
+      ? {
+          tools: request.tools.map(tool => ({
+            type: 'function' as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+          tool_choice: typeof toolChoice === 'object'
+            ? { type: 'function' as const, function: { name: toolChoice.name } }
+            : toolChoice,
+        }
+      : {};
+
+    let formatParams = {};
+    if (responseFormat?.type === 'json_schema') {
+      formatParams = {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: responseFormat.name, schema: responseFormat.schema },
+        },
+      };
+    } else if (responseFormat) {
+      formatParams = { response_format: { type: responseFormat.type } };
+    }
+
+    // Provider-specific fields are passed through untyped and may override the options
+    // above, but not the model or the messages
+    return {
+      ...params,
+      ...toolParams,
+      ...formatParams,
+      ...request.extraBody,
+      model: request.model,
+      messages: request.messages.map(message => this.convertMessage(message)),
+    };
+  }
+}
+
+/** Anthropic content block (request and response shapes) */
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+  | {
+      type: 'document';
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'text'; media_type: 'text/plain'; data: string };
+      title?: string;
+    };
+
+/** Messages API response */
+type AnthropicMessage = {
+  model: string;
+  content: AnthropicBlock[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+};
+
+/** Map Anthropic stop reasons onto OpenAI-style finish reasons */
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+/** Usage block of an Anthropic Messages API response */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/** Anthropic reports cache reads and writes apart from input_tokens; fold them into the prompt */
+function mapAnthropicInputUsage(usage: AnthropicUsage | undefined): { promptTokens: number; cachedTokens?: number } {
+  const cachedTokens = usage?.cache_read_input_tokens || 0;
+  const promptTokens = (usage?.input_tokens || 0) + cachedTokens + (usage?.cache_creation_input_tokens || 0);
+  return cachedTokens ? { promptTokens, cachedTokens } : { promptTokens };
+}
+
+/**
+ * Transport for the native Anthropic Messages API
+ * @class AnthropicTransport
+ * @implements {Transport}
+ */
+export class AnthropicTransport implements Transport {
+  private static readonly API_VERSION = '2023-06-01';
+  private readonly apiKey: string;
+  private readonly provider: AIProviderConfig;
+  private readonly timeout: number;
+
+  /**
+   * @param options - Connection settings
+   */
+  constructor({ apiKey, provider, timeout }: TransportOptions) {
+    this.apiKey = apiKey;
+    this.provider = provider;
+    this.timeout = timeout;
+  }
+
+  async complete(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.send('/messages', request, this.buildBody(request, false));
+    return this.mapMessage(await response.json() as AnthropicMessage);
+  }
+
+  async batch(
+    requests: TransportRequest[],
+    { pollInterval, signal, onProgress }: TransportBatchOptions
+  ): Promise<Array<TransportResponse | Error>> {
+    type MessageBatch = {
+      id: string;
+      processing_status: 'in_progress' | 'canceling' | 'ended';
+      request_counts: { processing: number; succeeded: number; errored: number; canceled: number; expired: number };
+      results_url?: string;
+    };
+
+    const created = await this.send('/messages/batches', { signal }, {
+      requests: requests.map((request, index) => ({
+        custom_id: String(index),
+        params: this.buildBody(request, false),
+      })),
+    });
+    let batch = await created.json() as MessageBatch;
+
+    try {
+      while (batch.processing_status !== 'ended') {
+        await sleep(pollInterval, signal);
+        batch = await (await this.send(`/messages/batches/${batch.id}`, { signal })).json() as MessageBatch;
+
+        const { processing, errored, canceled, expired } = batch.request_counts;
+        onProgress?.({ completed: requests.length - processing, failed: errored + canceled + expired });
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.send(`/messages/batches/${batch.id}/cancel`, {}, {}).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    const results: Array<TransportResponse | Error> = requests.map(
+      () => new AIError(`Batch ${batch.id} ended without running this request`, { code: 'batch_incomplete' })
+    );
+    if (!batch.results_url) return results;
+
+    const text = await (await this.send(batch.results_url, { signal })).text();
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      const { custom_id, result } = JSON.parse(line);
+      if (result?.type === 'succeeded') {
+        results[Number(custom_id)] = this.mapMessage(result.message);
+      } else {
+        const details = result?.error?.error;
+        results[Number(custom_id)] = Object.assign(new Error(details?.message || `Batch request ${result?.type}`), {
+          code: details?.type ?? `batch_${result?.type}`,
+        });
+      }
+    }
+    return results;
+  }
+
+  /** Map a Messages API response onto a TransportResponse */
+  private mapMessage(data: AnthropicMessage): TransportResponse {
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+
+    const usage = mapAnthropicInputUsage(data.usage);
+    const completionTokens = data.usage?.output_tokens || 0;
+    return {
+      content,
+      toolCalls,
+      usage: { ...usage, completionTokens, totalTokens: usage.promptTokens + completionTokens },
+      model: data.model,
+      finishReason: data.stop_reason ? ANTHROPIC_STOP_REASONS[data.stop_reason] || data.stop_reason : undefined,
+    };
+  }
+
+  async stream(request: TransportRequest): Promise<AsyncIterable<TransportChunk>> {
+    const response = await this.send('/messages', request, this.buildBody(request, true));
+    const body = response.body;
+    if (!body) {
+      throw new ProviderUnavailableError('Anthropic API returned an empty stream', { status: response.status });
+    }
+
+    return (async function* () {
+      // Anthropic numbers all content blocks; tool calls are numbered separately
+      const toolIndexes = new Map<number, number>();
+
+      for await (const { event, data } of readServerSentEvents(body)) {
+        const payload = JSON.parse(data);
+
+        switch (event) {
+          case 'message_start':
+            yield {
+              model: payload.message?.model,
+              usage: mapAnthropicInputUsage(payload.message?.usage),
+            };
+            break;
+          case 'content_block_start':
+            if (payload.content_block?.type === 'tool_use') {
+              const index = toolIndexes.size;
+              toolIndexes.set(payload.index, index);
+              yield {
+                toolCalls: [{ index, id: payload.content_block.id, name: payload.content_block.name }],
+              };
+            }
+            break;
+          case 'content_block_delta':
+            if (payload.delta?.type === 'text_delta') {
+              yield { content: payload.delta.text };
+            } else if (payload.delta?.type === 'input_json_delta') {
+              const index = toolIndexes.get(payload.index) ?? 0;
+              yield { toolCalls: [{ index, arguments: payload.delta.partial_json }] };
+            }
+            break;
+          case 'message_delta': {
+            const stopReason = payload.delta?.stop_reason;
+            yield {
+              finishReason: stopReason ? ANTHROPIC_STOP_REASONS[stopReason] || stopReason : undefined,
+              usage: { completionTokens: payload.usage?.output_tokens || 0 },
+            };
+            break;
+          }
+          case 'error': {
+            // Errors after the stream opened arrive as events rather than HTTP statuses
+            const error = new Error(payload.error?.message || data) as Error & { code?: string };
+            error.code = payload.error?.type;
+            throw error;
+          }
+        }
+      }
+    })();
+  }
+
+  /**
+   * Call an API endpoint and throw on HTTP errors
+   * @param path - Path below the base URL, or an absolute URL
+   * @param request - Cancellation signal, extra headers and header callback
+   * @param body - JSON body; requests without one are sent as GET
+   */
+  private async send(
+    path: string,
+    request: Pick<TransportRequest, 'signal' | 'headers' | 'onHeaders'>,
+    body?: Record<string, unknown>
+  ): Promise<Response> {
+    const url = /^https?:\/\//.test(path) ? path : `${this.provider.baseURL}${path}`;
+    // The timeout covers the wait for response headers only, so long streams are not cut off
+    const timeout = new AbortController();
+    const timer = setTimeout(
+      () => timeout.abort(new DOMException('The operation was aborted due to timeout', 'TimeoutError')),
+      this.timeout
+    );
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': AnthropicTransport.API_VERSION,
+          ...this.provider.headers,
+          ...request.headers,
+        },
+        body: body && JSON.stringify(body),
+        signal: combineSignals([request.signal, timeout.signal]),
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      let code: string | undefined;
+      try {
+        const parsed = JSON.parse(text);
+        message = parsed.error?.message || text;
+        code = parsed.error?.type;
+      } catch {
+        // Non-JSON error body - use the raw text
+      }
+      // Expose status, code and headers like the OpenAI SDK does, for retries and error classification
+      const error = new Error(`${response.status} ${message}`) as Error & {
+        status: number;
+        code?: string;
+        headers: Record<string, string>;
+      };
+      error.status = response.status;
+      error.code = code;
+      error.headers = Object.fromEntries(response.headers.entries());
+      throw error;
+    }
+
+    request.onHeaders?.(Object.fromEntries(response.headers.entries()));
+    return response;
+  }
+
+  /** Build a Messages API request body */
+  private buildBody(request: TransportRequest, stream: boolean): Record<string, unknown> {
+    const system = request.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => typeof msg.content === 'string' ? msg.content : msg.content.map(part => {
+        if (part.type !== 'text') {
+          throw new ValidationError('Anthropic system prompts can only contain text', { code: 'unsupported_content' });
+        }
+        return part.text || '';
+      }).join('\n'))
+      .filter(Boolean)
+      .join('\n\n');
+
+    if ((request.n ?? 1) > 1 || request.logprobs) {
+      throw new ValidationError('Anthropic does not support n > 1 or logprobs');
+    }
+    if (request.audio) {
+      throw new ValidationError('Anthropic does not support audio output');
+    }
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: this.convertMessages(request.messages),
+      stream,
+    };
+    if (system) body.system = system;
+    if (request.topP !== undefined) body.top_p = request.topP;
+    if (request.stop !== undefined) body.stop_sequences = typeof request.stop === 'string' ? [request.stop] : request.stop;
+    if (request.user !== undefined) body.metadata = { user_id: request.user };
+
+    if (request.tools?.length) {
+      body.tools = request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+
+      const { toolChoice } = request;
+      if (typeof toolChoice === 'object') {
+        body.tool_choice = { type: 'tool', name: toolChoice.name };
+      } else if (toolChoice === 'required') {
+        body.tool_choice = { type: 'any' };
+      } else if (toolChoice) {
+        body.tool_choice = { type: toolChoice };
+      }
+    }
+
+    // As for OpenAI, extraBody cannot replace the model, messages or stream flag
+    return { ...body, ...request.extraBody, model: body.model, messages: body.messages, stream };
+  }
+
+  /** Convert conversation history to Anthropic messages, merging consecutive same-role turns */
+  private convertMessages(messages: Message[]): Array<{ role: 'user' | 'assistant'; content: AnthropicBlock[] }> {
+    const converted: Array<{ role: 'user' | 'assistant'; content: AnthropicBlock[] }> = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: AnthropicBlock[] = [];
+
+      if (msg.role === 'tool') {
+        blocks.push({
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id || '',
+          content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+        });
+      } else if (typeof msg.content === 'string') {
+        if (msg.content) blocks.push({ type: 'text', text: msg.content });
+      } else {
+        for (const part of msg.content) {
+          if (part.type === 'text' && part.text) {
+            blocks.push({ type: 'text', text: part.text });
+          } else if (part.type === 'image_url' && part.image_url) {
+            blocks.push({ type: 'image', source: this.convertImageSource(part.image_url.url) });
+          } else if (part.type === 'file' && part.file) {
+            blocks.push(this.convertDocument(part.file));
+          } else if (part.type === 'input_audio') {
+            throw new ValidationError('Anthropic does not accept audio input', { code: 'unsupported_content' });
+          }
+        }
+      }
+
+      for (const call of msg.tool_calls || []) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: this.parseToolInput(call.function.arguments),
+        });
+      }
+
+      // Anthropic rejects empty content, e.g. an assistant turn with no text
+      if (blocks.length === 0) continue;
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * Tool call arguments as the object Anthropic expects
+   * Malformed arguments (which executeToolCalls() reports to the model) become `{}`
+   */
+  private parseToolInput(args: string): Record<string, unknown> {
+    try {
+      const input = args ? JSON.parse(args) : {};
+      return input !== null && typeof input === 'object' && !Array.isArray(input) ? input : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * PDFs become base64 document blocks and text files plain-text documents
+   * @throws {ValidationError} For file IDs and other formats
+   */
+  private convertDocument(file: NonNullable<MessageContent['file']>): AnthropicBlock {
+    const match = file.file_data?.match(/^data:([^;]+);base64,(.*)$/);
+    if (!match) {
+      throw new ValidationError('Anthropic needs document data; uploaded file IDs are not supported', {
+        code: 'unsupported_content',
+      });
+    }
+
+    const [, mediaType, data] = match;
+    const title = file.filename;
+    if (mediaType === 'application/pdf') {
+      return { type: 'document', source: { type: 'base64', media_type: mediaType, data }, title };
+    }
+    if (mediaType.startsWith('text/') || mediaType === 'application/json') {
+      const text = Buffer.from(data, 'base64').toString('utf8');
+      return { type: 'document', source: { type: 'text', media_type: 'text/plain', data: text }, title };
+    }
+    throw new ValidationError(`Anthropic does not accept ${mediaType} documents`, { code: 'unsupported_content' });
+  }
+
+  /** Data URLs become base64 sources; everything else is passed by URL */
+  private convertImageSource(url: string) {
+    const match = url.match(/^data:([^;]+);base64,(.*)$/);
+    if (match) {
+      return { type: 'base64' as const, media_type: match[1], data: match[2] };
+    }
+    return { type: 'url' as const, url };
+  }
+}
+
+/** Parse a server-sent events stream into events */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+        }
+        if (data.length > 0) yield { event, data: data.join('\n') };
+      }
+    }
+  } finally {
+    // Consumers that stop early or errors mid-stream close the connection,
+    // so the provider stops generating
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Combine several abort signals into one that aborts when any of them does
+ * @param signals - Signals to combine (undefined entries are ignored)
+ * @returns Combined signal, or undefined if there is nothing to combine
+ */
+function combineSignals(signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length <= 1) return active[0];
+  // AbortSignal.any() drops its listeners once the combined signal is collected
+  return AbortSignal.any(active);
+}
+
+/**
+ * Build the error thrown when a request is cancelled
+ * @param signal - The aborted signal
+ * @returns TimeoutError for timeout signals, AbortError otherwise
+ */
+function createAbortError(signal: AbortSignal): AIError {
+  const reason = signal.reason;
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new TimeoutError('Request timed out', { cause: reason });
+  }
+  return new AbortError('Request aborted', { cause: reason });
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional cancellation signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create the transport for a provider - its custom factory if set, otherwise
+ * the built-in transport for its protocol
+ * @param options - Connection settings
+ */
+function createTransport(options: TransportOptions): Transport {
+  const { provider } = options;
+  if (provider.transport) {
+    return provider.transport(options);
+  }
+
+  switch (provider.protocol || 'openai') {
+    case 'anthropic':
+      return new AnthropicTransport(options);
+    case 'openai':
+      return new OpenAITransport(options);
+    default:
+      throw new ValidationError(`Unsupported protocol '${provider.protocol}' for provider '${provider.name}'`);
+  }
+}
+
+/**
+ * A scripted reply: text, a partial response, an error to throw, or a function
+ * computing one of those from the request
+ */
+export type ScriptedReply =
+  | string
+  | Partial<TransportResponse>
+  | Error
+  | ((request: TransportRequest) => string | Partial<TransportResponse> | Error);
+
+/**
+ * In-memory transport that replays scripted replies - for tests without a network
+ * Streams replay the content word by word
+ * @class ScriptedTransport
+ * @implements {Transport}
+ * @example
+ * const transport = new ScriptedTransport(['Hello!', new RateLimitError('slow down')]);
+ * const ai = new AIModel({ apiKey: 'test', transport });
+ * 
+ * await ai.sendTextMessage('Hi');        // → 'Hello!'
+ * transport.requests[0].messages;        // → what was sent
+ */
+export class ScriptedTransport implements Transport {
+  /** Every request received, in order */
+  readonly requests: TransportRequest[] = [];
+  private replies: ScriptedReply[];
+
+  /**
+   * @param replies - Replies returned in order, one per request
+   */
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  /**
+   * Queue more replies
+   * @param replies - Replies to append
+   * @returns This instance for chaining
+   */
+  enqueue(...replies: ScriptedReply[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  /**
+   * Number of replies not yet used
+   */
+  get pending(): number {
+    return this.replies.length;
+  }
+
+  async complete(request: TransportRequest): Promise<TransportResponse> {
+    return this.nextReply(request);
+  }
+
+  async stream(request: TransportRequest): Promise<AsyncIterable<TransportChunk>> {
+    const reply = this.nextReply(request);
+
+    const { signal } = request;
+
+    return (async function* () {
+      yield { model: reply.model };
+      for (const word of reply.content.match(/\S+\s*|\s+/g) || []) {
+        if (signal?.aborted) throw createAbortError(signal);
+        yield { content: word };
+      }
+      yield {
+        toolCalls: reply.toolCalls.map((call, index) => ({
+          index,
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        usage: reply.usage,
+        finishReason: reply.finishReason,
+      };
+    })();
+  }
+
+  /** Record the request and resolve the next scripted reply */
+  private nextReply(request: TransportRequest): TransportResponse {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    if (request.signal?.aborted) throw createAbortError(request.signal);
+
+    const scripted = this.replies.shift();
+    if (scripted === undefined) {
+      throw new AIError(`ScriptedTransport has no reply left for request #${this.requests.length}`, {
+        code: 'script_exhausted',
+      });
+    }
+
+    const reply = typeof scripted === 'function' ? scripted(request) : scripted;
+    if (reply instanceof Error) throw reply;
+
+    const response = typeof reply === 'string' ? { content: reply } : reply;
+    const toolCalls = response.toolCalls || [];
+    return {
+      content: response.content || '',
+      toolCalls,
+      usage: response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: response.model || request.model,
+      finishReason: response.finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      choices: response.choices,
+      audio: response.audio,
+    };
+  }
+}
+
+// ============================================
+// STRUCTURED OUTPUT
+// ============================================
+
+/**
+ * Compile a schema `pattern`
+ * @throws {ValidationError} With code 'invalid_schema' if the pattern is not a valid regular expression
+ */
+function compileSchemaPattern(pattern: string, path: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new ValidationError(`Invalid schema pattern at ${path}: ${(error as Error).message}`, {
+      code: 'invalid_schema',
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Thrown when structured output is still invalid after all repair attempts
+ * @class StructuredOutputError
+ */
+export class StructuredOutputError extends ValidationError {
+  /**
+   * @param message - Error summary
+   * @param errors - Validation errors from the last attempt
+   * @param content - Raw model output from the last attempt
+   * @param options - Error context
+   */
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly content: string,
+    options: AIErrorOptions = {}
+  ) {
+    super(message, { code: 'structured_output_invalid', ...options });
+  }
+}
+
+/**
+ * Validate a value against a JSON schema
+ * Supports the common subset: type, enum, const, properties, required,
+ * additionalProperties, items, anyOf, and numeric/string/array bounds
+ * @param value - Value to validate
+ * @param schema - JSON schema
+ * @param path - Path of the value, used in error messages
+ * @returns List of validation errors (empty when valid)
+ * @example
+ * validateJSONSchema({ age: 'ten' }, {
+ *   type: 'object',
+ *   properties: { age: { type: 'number' } }
+ * });
+ * // ['$.age: expected number, got string']
+ */
+export function validateJSONSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actualType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+  if (schema.anyOf && Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf as JSONSchema[];
+    if (!options.some(option => validateJSONSchema(value, option, path).length === 0)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+  }
+
+  if (schema.type) {
+    const matches = schema.type === 'integer'
+      ? Number.isInteger(value)
+      : schema.type === actualType;
+    if (!matches) {
+      errors.push(`${path}: expected ${schema.type}, got ${actualType}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !compileSchemaPattern(schema.pattern, path).test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJSONSchema(item, schema.items as JSONSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (actualType === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) {
+        errors.push(`${path}: missing required property '${key}'`);
+      }
+    }
+    for (const [key, propValue] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        errors.push(...validateJSONSchema(propValue, propSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJSONSchema(propValue, schema.additionalProperties as JSONSchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Parse model output as JSON, tolerating surrounding markdown code fences */
+function parseJSONContent(content: string): { value?: unknown; error?: string } {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// ============================================
+// RETRY POLICY
+// ============================================
+
+/** Defaults for every RetryPolicy field except the hook */
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+  retryableStatusCodes: [408, 409, 429, 500, 502, 503, 504],
+  retryableErrors: [],
+  baseDelay: 2000,
+  maxDelay: 30000,
+  jitter: 'full',
+  respectRetryAfter: true,
+};
+
+/** Read the HTTP status attached to an error by the SDK or a transport */
+function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/** Read a response header attached to an error (plain object or Headers instance) */
+function getErrorHeader(error: unknown, name: string): string | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers) return undefined;
+
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Parse durations like '1s', '6m0s' or '250ms' into milliseconds */
+function parseDuration(value: string): number | undefined {
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    matched = true;
+    total += parseFloat(amount) * { ms: 1, s: 1000, m: 60000, h: 3600000 }[unit as 'ms' | 's' | 'm' | 'h'];
+  }
+  return matched ? total : undefined;
+}
+
+/**
+ * Work out how long the server asked us to wait, from Retry-After and the
+ * rate-limit reset headers used by OpenAI, Anthropic and OpenRouter
+ * @returns Delay in milliseconds, or undefined if the server gave no hint
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = getErrorHeader(error, 'retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = getErrorHeader(error, 'retry-after');
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const resets: number[] = [];
+  // OpenAI: durations until the request/token windows reset
+  for (const name of ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']) {
+    const value = getErrorHeader(error, name);
+    const duration = value ? parseDuration(value) : undefined;
+    if (duration !== undefined) resets.push(duration);
+  }
+  // Anthropic: RFC 3339 timestamps
+  for (const name of ['anthropic-ratelimit-requests-reset', 'anthropic-ratelimit-tokens-reset']) {
+    const value = getErrorHeader(error, name);
+    const date = value ? Date.parse(value) : NaN;
+    if (!isNaN(date)) resets.push(Math.max(0, date - Date.now()));
+  }
+  // OpenRouter: epoch milliseconds
+  const reset = getErrorHeader(error, 'x-ratelimit-reset');
+  if (reset && !isNaN(Number(reset))) {
+    resets.push(Math.max(0, Number(reset) - Date.now()));
+  }
+
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/** Node and undici error codes of failed connections */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN',
+  'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Whether an error means no HTTP response arrived: a connection failure or a
+ * client-side timeout (checked through the `cause` chain)
+ */
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+
+  let current = error as { name?: unknown; code?: unknown; message?: unknown; cause?: unknown } | undefined;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (typeof current.code === 'string' && NETWORK_ERROR_CODES.has(current.code)) return true;
+    if (current.name === 'TimeoutError') return true;
+    // undici reports every connection failure as "TypeError: fetch failed"
+    if (current instanceof TypeError && current.message === 'fetch failed') return true;
+    current = current.cause as typeof current;
+  }
+  return false;
+}
+
+/**
+ * Decide whether a failure is worth retrying
+ * Status codes decide when present; typed errors without one are retried if
+ * transient (rate limit, timeout, unavailable); other errors without an HTTP
+ * status are retried only if they are network failures or client timeouts
+ */
+function isRetryableError(error: unknown, policy: Required<Omit<RetryPolicy, 'onRetry'>>): boolean {
+  if (policy.retryableErrors.some(errorClass => error instanceof errorClass)) {
+    return true;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return policy.retryableStatusCodes.includes(status);
+  }
+  if (error instanceof AIError) {
+    return error instanceof RateLimitError
+      || error instanceof TimeoutError
+      || error instanceof ProviderUnavailableError;
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * Delay before the next attempt: server-requested wait if any, otherwise
+ * jittered exponential backoff - both capped at maxDelay
+ */
+function computeRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: Required<Omit<RetryPolicy, 'onRetry'>>
+): number {
+  const retryAfter = policy.respectRetryAfter ? getRetryAfterMs(error) : undefined;
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * delay);
+    case 'equal':
+      return Math.round(delay / 2 + Math.random() * (delay / 2));
+    default:
+      return delay;
+  }
+}
+
+// ============================================
+// RATE LIMITING
+// ============================================
+
+/**
+ * Client-side limits for one provider
+ * @interface RateLimiterOptions
+ */
+export interface RateLimiterOptions {
+  /** Requests per minute (default: unlimited, or the provider's limit once its headers report one) */
+  requestsPerMinute?: number;
+  /** Prompt plus completion tokens per minute (default: unlimited, or the provider's limit once reported) */
+  tokensPerMinute?: number;
+  /** Maximum calls in flight at once (default: unlimited) */
+  maxConcurrent?: number;
+  /** Longest time a call may wait for a slot in milliseconds (default: 60000) */
+  queueTimeout?: number;
+  /** Maximum number of waiting calls; further calls fail at once (default: unlimited) */
+  maxQueueSize?: number;
+  /** Follow the provider's rate-limit headers (default: true) */
+  adaptToHeaders?: boolean;
+}
+
+/**
+ * What a call needs from the limiter
+ * @interface RateLimitRequest
+ */
+export interface RateLimitRequest {
+  /** Estimated prompt plus completion tokens (default: 0) */
+  tokens?: number;
+  /** Higher priorities leave the queue first; equal priorities are first come, first served (default: 0) */
+  priority?: number;
+  /** Stops waiting when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Permission to make one call
+ * @interface RateLimitLease
+ */
+export interface RateLimitLease {
+  /** Time spent in the queue in milliseconds */
+  readonly waitMs: number;
+  /**
+   * Free the concurrency slot once the call is done
+   * @param usedTokens - Actual tokens used, to correct the estimate taken from the token bucket
+   */
+  release(usedTokens?: number): void;
+  /**
+   * Free the slot after a failed call; rate-limit errors pause the limiter
+   * for as long as the provider asked
+   * @param error - The call's error
+   */
+  fail(error: unknown): void;
+}
+
+/**
+ * Snapshot of a limiter
+ * @interface RateLimiterState
+ */
+export interface RateLimiterState {
+  /** Calls in flight */
+  active: number;
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Requests that could start now (undefined when requests are not limited) */
+  availableRequests?: number;
+  /** Tokens left in the current window (undefined when tokens are not limited) */
+  availableTokens?: number;
+  /** Epoch ms until which the provider asked us to hold off */
+  pausedUntil?: number;
+}
+
+/** Bucket that refills its full capacity once per minute, continuously */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.level = capacity;
+  }
+
+  available(): number {
+    this.refill();
+    return this.level;
+  }
+
+  /** Milliseconds until `amount` can be taken (amounts above capacity wait for a full bucket) */
+  waitTime(amount: number): number {
+    const missing = Math.min(amount, this.capacity) - this.available();
+    return missing > 0 ? Math.ceil(missing * 60000 / this.capacity) : 0;
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.level -= Math.min(amount, this.capacity);
+  }
+
+  /** Add (or, with a negative amount, remove) tokens */
+  adjust(amount: number): void {
+    this.refill();
+    this.level = Math.min(this.capacity, this.level + amount);
+  }
+
+  /** Lower the level to what the provider says is left */
+  limitTo(remaining: number): void {
+    this.refill();
+    this.level = Math.min(this.level, remaining);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.level = Math.min(this.capacity, this.level + (now - this.updatedAt) * this.capacity / 60000);
+    this.updatedAt = now;
+  }
+}
+
+/** Call waiting for a limiter slot */
+interface QueuedCall {
+  tokens: number;
+  priority: number;
+  enqueuedAt: number;
+  resolve: (lease: RateLimitLease) => void;
+  reject: (error: AIError) => void;
+  cleanup: () => void;
+}
+
+/** Read the first numeric header among `names` */
+function getNumericHeader(headers: unknown, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = getErrorHeader({ headers }, name);
+    if (value !== undefined && value !== '' && !isNaN(Number(value))) return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Client-side rate limiter: token buckets for requests and tokens per minute,
+ * a concurrency cap and a priority queue with timeouts
+ * Attach one per provider with ProviderRegistry.setRateLimiter() so every
+ * AIModel instance in the process shares it. The limiter also follows the
+ * rate-limit headers OpenAI, Anthropic and OpenRouter send back: buckets are
+ * lowered to the remaining allowance, and calls pause until the window resets
+ * when it runs out or a 429 asks us to wait.
+ * @class RateLimiter
+ * @example
+ * const limiter = new RateLimiter({ requestsPerMinute: 60, maxConcurrent: 4, queueTimeout: 30000 });
+ * ProviderRegistry.setRateLimiter('openrouter', limiter);
+ *
+ * await ai.send({ priority: 10 }); // jumps ahead of background jobs
+ */
+export class RateLimiter {
+  private requests?: TokenBucket;
+  private tokens?: TokenBucket;
+  private readonly queue: QueuedCall[] = [];
+  private active = 0;
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param options - Limits; all are optional
+   */
+  constructor(private readonly options: RateLimiterOptions = {}) {
+    if (options.requestsPerMinute) this.requests = new TokenBucket(options.requestsPerMinute);
+    if (options.tokensPerMinute) this.tokens = new TokenBucket(options.tokensPerMinute);
+  }
+
+  /**
+   * Wait for a slot
+   * @param request - Token estimate, priority and cancellation signal
+   * @returns Lease to release when the call finishes
+   * @throws {RateLimitQueueError} If the queue is full or the wait exceeds queueTimeout
+   * @throws {AbortError} If the signal aborts while waiting
+   */
+  acquire(request: RateLimitRequest = {}): Promise<RateLimitLease> {
+    const { tokens = 0, priority = 0, signal } = request;
+    if (signal?.aborted) return Promise.reject(createAbortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const call: QueuedCall = { tokens, priority, enqueuedAt: Date.now(), resolve, reject, cleanup: () => {} };
+
+      const queueTimeout = this.options.queueTimeout ?? 60000;
+      const timeout = setTimeout(() => this.reject(call, new RateLimitQueueError(
+        `Rate limiter queue timeout: no slot within ${queueTimeout}ms`,
+        { code: 'queue_timeout' }
+      )), queueTimeout);
+      const onAbort = () => this.reject(call, createAbortError(signal!));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      call.cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const index = this.queue.findIndex(queued => queued.priority < priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, call);
+      this.drain();
+
+      const { maxQueueSize } = this.options;
+      if (maxQueueSize !== undefined && this.queue.includes(call) && this.queue.length > maxQueueSize) {
+        this.reject(call, new RateLimitQueueError(
+          `Rate limiter queue is full (${maxQueueSize} waiting)`,
+          { code: 'queue_full' }
+        ));
+      }
+    });
+  }
+
+  /**
+   * Adapt to rate-limit headers from a provider response
+   * @param headers - Response headers (plain object or Headers instance)
+   */
+  observeHeaders(headers: Record<string, string> | Headers): void {
+    if (this.options.adaptToHeaders === false) return;
+
+    const requestLimit = getNumericHeader(headers, ['x-ratelimit-limit-requests', 'anthropic-ratelimit-requests-limit', 'x-ratelimit-limit']);
+    const tokenLimit = getNumericHeader(headers, ['x-ratelimit-limit-tokens', 'anthropic-ratelimit-tokens-limit']);
+    if (!this.requests && requestLimit) this.requests = new TokenBucket(requestLimit);
+    if (!this.tokens && tokenLimit) this.tokens = new TokenBucket(tokenLimit);
+
+    const remainingRequests = getNumericHeader(headers, ['x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining', 'x-ratelimit-remaining']);
+    const remainingTokens = getNumericHeader(headers, ['x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining']);
+    if (remainingRequests !== undefined) this.requests?.limitTo(remainingRequests);
+    if (remainingTokens !== undefined) this.tokens?.limitTo(remainingTokens);
+
+    if (remainingRequests === 0 || remainingTokens === 0) {
+      const resetMs = getRetryAfterMs({ headers });
+      if (resetMs !== undefined) this.pause(resetMs);
+    }
+  }
+
+  /**
+   * Hold back all queued calls
+   * @param ms - Pause length in milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  /**
+   * Current limiter state
+   * @returns Snapshot of active and queued calls and remaining allowance
+   */
+  getState(): RateLimiterState {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      availableRequests: this.requests && Math.floor(this.requests.available()),
+      availableTokens: this.tokens && Math.floor(this.tokens.available()),
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /** Start queued calls, highest priority first, while the limits allow */
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      // Slots freed by release() drain again
+      if (this.options.maxConcurrent !== undefined && this.active >= this.options.maxConcurrent) return;
+
+      const next = this.queue[0];
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(next.tokens) ?? 0
+      );
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      this.queue.shift();
+      next.cleanup();
+      this.requests?.take(1);
+      this.tokens?.take(next.tokens);
+      this.active++;
+      next.resolve(this.createLease(next));
+    }
+  }
+
+  private createLease(call: QueuedCall): RateLimitLease {
+    let released = false;
+    const release = (usedTokens?: number) => {
+      if (released) return;
+      released = true;
+      this.active--;
+      if (usedTokens !== undefined) this.tokens?.adjust(call.tokens - usedTokens);
+      this.drain();
+    };
+
+    return {
+      waitMs: Date.now() - call.enqueuedAt,
+      release,
+      fail: error => {
+        if (getErrorStatus(error) === 429 || error instanceof RateLimitError) {
+          const retryAfter = getRetryAfterMs(error) ?? (error as RateLimitError).retryAfterMs;
+          if (retryAfter !== undefined) this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+        }
+        if (this.options.adaptToHeaders !== false) {
+          const headers = (error as { headers?: Record<string, string> } | null)?.headers;
+          if (headers) this.observeHeaders(headers);
+        }
+        release();
+      },
+    };
+  }
+
+  private reject(call: QueuedCall, error: AIError): void {
+    const index = this.queue.indexOf(call);
+    if (index === -1) return;
+
+    this.queue.splice(index, 1);
+    call.cleanup();
+    call.reject(error);
+    // The head of the queue may have changed
+    this.drain();
+  }
+}
+
+// ============================================
+// TOKEN COUNTING
+// ============================================
+
+/** Tokens added per message for role and formatting */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Tokens that prime the assistant's reply */
+const REPLY_PRIMING_TOKENS = 3;
+/** Rough cost of one image input */
+const IMAGE_TOKENS = 765;
+/** Cost of one image sent with detail 'low' */
+const LOW_DETAIL_IMAGE_TOKENS = 85;
+/** Rough cost of an audio clip or binary document, which cannot be measured without decoding it */
+const ATTACHMENT_TOKENS = 1500;
+
+/**
+ * Estimate the number of tokens in a text without a tokenizer
+ * Counts CJK characters as one token each and the rest at about four characters
+ * per token (3.5 for Claude models). Accurate to roughly ±10% for English prose.
+ * @param text - Text to measure
+ * @param model - Model the text is sent to
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string, model = ''): number {
+  if (!text) return 0;
+
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length || 0;
+  const charsPerToken = /claude/i.test(model) ? 3.5 : 4;
+  return cjk + Math.ceil((text.length - cjk) / charsPerToken);
+}
+
+/** Estimate the tokens a list of messages takes up in a request */
+function countMessageTokens(messages: Message[], estimator: TokenEstimator, model: string): number {
+  let total = REPLY_PRIMING_TOKENS;
+
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS;
+
+    if (typeof message.content === 'string') {
+      total += estimator(message.content, model);
+    } else {
+      for (const part of message.content) {
+        if (part.type === 'text') {
+          total += estimator(part.text || '', model);
+        } else if (part.type === 'image_url') {
+          total += part.image_url?.detail === 'low' ? LOW_DETAIL_IMAGE_TOKENS : IMAGE_TOKENS;
+        } else {
+          const text = part.file?.file_data?.match(/^data:text\/[^;]+;base64,(.*)$/)?.[1];
+          total += text ? estimator(Buffer.from(text, 'base64').toString('utf8'), model) : ATTACHMENT_TOKENS;
+        }
+      }
+    }
+
+    for (const call of message.tool_calls || []) {
+      total += estimator(call.function.name + call.function.arguments, model);
+    }
+  }
+
+  return total;
+}
+
+/** Render messages as a plain transcript for summarization */
+function formatTranscript(messages: Message[]): string {
+  return messages.map(message => {
+    const text = typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => {
+        if (part.type === 'text') return part.text;
+        if (part.type === 'file') return `[document${part.file?.filename ? `: ${part.file.filename}` : ''}]`;
+        return part.type === 'input_audio' ? '[audio]' : '[image]';
+      }).join(' ');
+    const calls = (message.tool_calls || [])
+      .map(call => `[called ${call.function.name}(${call.function.arguments})]`)
+      .join(' ');
+    return `${message.role}: ${[text, calls].filter(Boolean).join(' ')}`;
+  }).join('\n\n');
+}
+
+/** Instructions for the model that summarizes older history */
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so it can replace the original messages. ' +
+  'Keep facts, decisions, names, numbers, user preferences and open questions. ' +
+  'Write in the third person and do not add anything that was not said.';
+
+// ============================================
+// IMAGE INPUT
+// ============================================
+
+/** Resolution the model looks at an image in */
+export type ImageDetail = 'low' | 'high' | 'auto';
+
+/** An image: URL, data URL, file path, bytes (Buffer/Uint8Array) or Blob */
+export type ImageSource = string | Uint8Array | Blob;
+
+/** An image, optionally with its own detail level */
+export type ImageInput = ImageSource | { source: ImageSource; detail?: ImageDetail };
+
+/**
+ * Image limits of a provider
+ * @interface ImageLimits
+ */
+export interface ImageLimits {
+  /** Largest accepted image in bytes */
+  maxBytes?: number;
+  /** Accepted MIME types (default: PNG, JPEG, GIF and WebP) */
+  formats?: string[];
+}
+
+/** Formats every built-in provider accepts */
+const DEFAULT_IMAGE_FORMATS = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** Magic-byte signatures; `null` matches any byte */
+const IMAGE_SIGNATURES: Array<{ type: string; bytes: Array<number | null> }> = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { type: 'image/bmp', bytes: [0x42, 0x4d] },
+  { type: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: 'image/heic', bytes: [null, null, null, null, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63] },
+];
+
+/**
+ * Detect an image's MIME type from its first bytes
+ * @param bytes - Image data
+ * @returns MIME type, or undefined if the data is not a recognized image
+ */
+export function detectImageType(bytes: Uint8Array): string | undefined {
+  return IMAGE_SIGNATURES.find(signature =>
+    bytes.length >= signature.bytes.length
+    && signature.bytes.every((byte, index) => byte === null || bytes[index] === byte)
+  )?.type;
+}
+
+/**
+ * Check an image against provider limits and encode it as a base64 data URL
+ * @throws {ValidationError} If the format is not accepted or the image is too large
+ */
+function encodeImage(bytes: Uint8Array, limits: ImageLimits, label: string): string {
+  const formats = limits.formats || DEFAULT_IMAGE_FORMATS;
+  const type = detectImageType(bytes);
+  if (!type || !formats.includes(type)) {
+    throw new ValidationError(
+      `${label} is ${type ? `in ${type} format` : 'not a recognized image'}; accepted formats: ${formats.join(', ')}`,
+      { code: 'unsupported_image_format' }
+    );
+  }
+  if (limits.maxBytes !== undefined && bytes.byteLength > limits.maxBytes) {
+    throw new ValidationError(
+      `${label} is ${(bytes.byteLength / 1048576).toFixed(1)} MB; the limit is ${(limits.maxBytes / 1048576).toFixed(1)} MB`,
+      { code: 'image_too_large' }
+    );
+  }
+  return `data:${type};base64,${Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64')}`;
+}
+
+/** Split an image input into source and detail */
+function unwrapImageInput(input: ImageInput, detail?: ImageDetail): { source: ImageSource; detail?: ImageDetail } {
+  if (typeof input === 'object' && 'source' in input) {
+    return { source: input.source, detail: input.detail ?? detail };
+  }
+  return { source: input, detail };
+}
+
+/** Build an image part from an already encoded URL */
+function imagePart(url: string, detail?: ImageDetail): MessageContent {
+  return { type: 'image_url', image_url: detail ? { url, detail } : { url } };
+}
+
+/**
+ * Build an image part synchronously: URLs pass through, data URLs and bytes are
+ * validated, files are read from disk
+ * @throws {ValidationError} For Blobs (use loadImage()), unreadable files and invalid images
+ */
+function createImagePart(input: ImageInput, limits: ImageLimits, label: string, detail?: ImageDetail): MessageContent {
+  const image = unwrapImageInput(input, detail);
+  const { source } = image;
+
+  if (typeof source === 'string') {
+    if (/^https?:\/\//i.test(source)) return imagePart(source, image.detail);
+
+    const dataURL = source.match(/^data:[^;,]*;base64,(.*)$/s);
+    if (dataURL) return imagePart(encodeImage(Buffer.from(dataURL[1], 'base64'), limits, label), image.detail);
+
+    let bytes: Buffer;
+    try {
+      bytes = readFileSync(source);
+    } catch (error) {
+      throw new ValidationError(`Cannot read image file '${source}': ${(error as Error).message}`, {
+        code: 'image_not_found',
+        cause: error,
+      });
+    }
+    return imagePart(encodeImage(bytes, limits, `Image file '${source}'`), image.detail);
+  }
+
+  if (source instanceof Uint8Array) return imagePart(encodeImage(source, limits, label), image.detail);
+
+  throw new ValidationError(
+    `${label} is a Blob, which must be read asynchronously - use loadImage() or sendImageMessage()`,
+    { code: 'unsupported_image_source' }
+  );
+}
+
+/**
+ * Turn an image from any source into a message content part
+ * Remote URLs are passed through; files, bytes, Blobs and data URLs are checked
+ * (format sniffed from the content, size against `maxBytes`) and sent as base64
+ * @param input - URL, data URL, file path, Buffer/Uint8Array or Blob
+ * @param options - Limits to enforce and the detail level
+ * @returns Image content part
+ * @throws {ValidationError} If the file cannot be read or the image is not accepted
+ * @example
+ * const screenshot = await loadImage(await (await fetch(url)).blob(), { detail: 'low' });
+ * ai.addUserMessage([{ type: 'text', text: 'What changed?' }, screenshot]);
+ */
+export async function loadImage(
+  input: ImageInput,
+  options: ImageLimits & { detail?: ImageDetail } = {}
+): Promise<MessageContent> {
+  const { source, detail } = unwrapImageInput(input, options.detail);
+
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return imagePart(encodeImage(new Uint8Array(await source.arrayBuffer()), options, 'Image'), detail);
+  }
+  if (typeof source === 'string' && !/^(https?:|data:)/i.test(source)) {
+    let bytes: Buffer;
+    try {
+      bytes = await fs.readFile(source);
+    } catch (error) {
+      throw new ValidationError(`Cannot read image file '${source}': ${(error as Error).message}`, {
+        code: 'image_not_found',
+        cause: error,
+      });
+    }
+    return imagePart(encodeImage(bytes, options, `Image file '${source}'`), detail);
+  }
+  return createImagePart({ source, detail }, options, 'Image');
+}
+
+// ============================================
+// AUDIO AND DOCUMENT INPUT
+// ============================================
+
+/** Audio encodings accepted as input */
+export type AudioFormat = 'wav' | 'mp3';
+
+/** MIME types of text documents, by file extension */
+const DOCUMENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.json': 'application/json',
+};
+
+/** Read a file path, or pass bytes through */
+function readBinarySource(source: string | Uint8Array, kind: string): Uint8Array {
+  if (typeof source !== 'string') return source;
+  try {
+    return readFileSync(source);
+  } catch (error) {
+    throw new ValidationError(`Cannot read ${kind} file '${source}': ${(error as Error).message}`, {
+      code: 'file_not_found',
+      cause: error,
+    });
+  }
+}
+
+/** Base64-encode bytes */
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+}
+
+/**
+ * Detect an audio clip's format from its first bytes
+ * @param bytes - Audio data
+ * @returns 'wav' or 'mp3', or undefined if not recognized
+ */
+export function detectAudioFormat(bytes: Uint8Array): AudioFormat | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'wav';
+  // ID3 tag, or a bare MPEG audio frame header
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'mp3';
+  return undefined;
+}
+
+/**
+ * Build an audio content part from a file path or bytes
+ * @param source - File path or Buffer/Uint8Array
+ * @param options - Format override (default: detected from the content)
+ * @returns Audio content part
+ * @throws {ValidationError} If the file cannot be read or the format is not WAV or MP3
+ * @example
+ * ai.addUserMessage([{ type: 'text', text: 'Transcribe this' }, createAudioPart('./memo.wav')]);
+ */
+export function createAudioPart(source: string | Uint8Array, options: { format?: AudioFormat } = {}): MessageContent {
+  const bytes = readBinarySource(source, 'audio');
+  const format = options.format || detectAudioFormat(bytes);
+  if (!format) {
+    throw new ValidationError('Audio is not a recognized WAV or MP3 clip', { code: 'unsupported_audio_format' });
+  }
+  return { type: 'input_audio', input_audio: { data: toBase64(bytes), format } };
+}
+
+/**
+ * Build a document content part from a file path or bytes
+ * PDFs are recognized from their content; other types from the file extension or `mimeType`.
+ * Anthropic reads PDFs and text files as documents; OpenAI-compatible providers accept
+ * PDFs as files and get text files inlined as text.
+ * @param source - File path or Buffer/Uint8Array
+ * @param options - File name shown to the model and MIME type override
+ * @returns Document content part
+ * @throws {ValidationError} If the file cannot be read or its type is unknown
+ * @example
+ * ai.addUserMessage([{ type: 'text', text: 'Summarize' }, createDocumentPart(pdfBuffer, { filename: 'q3.pdf' })]);
+ */
+export function createDocumentPart(
+  source: string | Uint8Array,
+  options: { filename?: string; mimeType?: string } = {}
+): MessageContent {
+  const bytes = readBinarySource(source, 'document');
+  const filename = options.filename || (typeof source === 'string' ? path.basename(source) : undefined);
+  const isPDF = String.fromCharCode(...bytes.subarray(0, 5)) === '%PDF-';
+  const mimeType = options.mimeType
+    || (isPDF ? 'application/pdf' : undefined)
+    || (filename ? DOCUMENT_TYPES[path.extname(filename).toLowerCase()] : undefined);
+
+  if (!mimeType) {
+    throw new ValidationError(
+      `Cannot tell the type of document${filename ? ` '${filename}'` : ''}; pass options.mimeType`,
+      { code: 'unsupported_document_format' }
+    );
+  }
+  return {
+    type: 'file',
+    file: { file_data: `data:${mimeType};base64,${toBase64(bytes)}`, filename: filename || `document${isPDF ? '.pdf' : ''}` },
+  };
+}
+
+// ============================================
+// CONVERSATION PERSISTENCE
+// ============================================
+
+/** Current version of the SerializedConversation schema */
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+/**
+ * Model settings that survive serialization
+ * Functions (token estimator, retry hooks and error classes) and API keys are left out
+ */
+export type ConversationSettings = Omit<ModelSettings, 'tokenEstimator' | 'retryPolicy' | 'fallbacks'> & {
+  retryPolicy: Omit<RetryPolicy, 'onRetry' | 'retryableErrors'>;
+  fallbacks: Omit<FallbackTarget, 'apiKey'>[];
+};
+
+/**
+ * Saved state of an AIModel conversation, as produced by toJSON()
+ * Never contains API keys; tools must be registered again after restoring
+ * @interface SerializedConversation
+ */
+export interface SerializedConversation {
+  /** Schema version (CONVERSATION_SCHEMA_VERSION) */
+  version: number;
+  /** Provider ID */
+  provider: string;
+  /** Model settings, including the system prompt */
+  config: ConversationSettings;
+  /** Prompt template in use, if any */
+  template?: TemplateRef;
+  /** Conversation history */
+  messages: Message[];
+  /** Summary of compacted history */
+  historySummary: string;
+  /** Application data attached with setMetadata() */
+  metadata: Record<string, unknown>;
+  /** Running spend, so budgets carry over */
+  spend: SpendSummary;
+  /** ISO timestamp of serialization */
+  savedAt: string;
+}
+
+/**
+ * Storage backend for serialized conversations
+ * @interface ConversationStore
+ */
+export interface ConversationStore {
+  /** Save (create or replace) a conversation */
+  save(id: string, conversation: SerializedConversation): Promise<void>;
+  /** Load a conversation, or undefined if it does not exist */
+  load(id: string): Promise<SerializedConversation | undefined>;
+  /** Delete a conversation; resolves true if it existed */
+  delete(id: string): Promise<boolean>;
+  /** List stored conversation IDs */
+  list(): Promise<string[]>;
+}
+
+/**
+ * In-process conversation store - contents are lost when the process exits
+ * @class MemoryConversationStore
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, SerializedConversation> = new Map();
+
+  async save(id: string, conversation: SerializedConversation): Promise<void> {
+    this.conversations.set(id, structuredClone(conversation));
+  }
+
+  async load(id: string): Promise<SerializedConversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation && structuredClone(conversation);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.conversations.keys());
+  }
+}
+
+/** Write through a temporary file so readers never see a half-written file */
+async function writeFileAtomic(file: string, data: string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, data, 'utf8');
+  await fs.rename(temp, file);
+}
+
+/**
+ * Conversation store keeping one JSON file per conversation in a directory
+ * Writes go to a temporary file first, so a crash never leaves a half-written conversation
+ * @class FileConversationStore
+ * @example
+ * const store = new FileConversationStore('./conversations');
+ * await ai.saveTo(store, sessionId);
+ */
+export class FileConversationStore implements ConversationStore {
+  /**
+   * @param directory - Directory for conversation files (created on first save)
+   */
+  constructor(private readonly directory: string) {}
+
+  async save(id: string, conversation: SerializedConversation): Promise<void> {
+    await writeFileAtomic(this.filePath(id), JSON.stringify(conversation, null, 2));
+  }
+
+  async load(id: string): Promise<SerializedConversation | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  /** IDs are URI-encoded so any string maps to a safe file name */
+  private filePath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+// ============================================
+// RESPONSE CACHE
+// ============================================
+
+/**
+ * Storage backend for cached responses
+ * Keys are hashes of provider, model, messages and request options
+ * @interface ResponseCache
+ */
+export interface ResponseCache {
+  /** Get a response, or undefined if missing or expired */
+  get(key: string): Promise<AIResponse | undefined>;
+  /** Store a response; `ttl` in milliseconds overrides the cache's default */
+  set(key: string, response: AIResponse, ttl?: number): Promise<void>;
+  /** Remove a response; resolves true if it existed */
+  delete(key: string): Promise<boolean>;
+  /** Remove all responses */
+  clear(): Promise<void>;
+}
+
+/** A cached response with its expiry time (epoch ms, null for never) */
+interface CacheEntry {
+  response: AIResponse;
+  expiresAt: number | null;
+}
+
+/** Expiry time for a TTL in milliseconds */
+function getExpiry(ttl: number | undefined): number | null {
+  return ttl ? Date.now() + ttl : null;
+}
+
+/** Whether a cache entry has expired */
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+/**
+ * In-memory response cache with least-recently-used eviction
+ * @class MemoryResponseCache
+ * @example
+ * const ai = new AIModel({ apiKey, cache: new MemoryResponseCache({ maxEntries: 500, ttl: 3_600_000 }) });
+ */
+export class MemoryResponseCache implements ResponseCache {
+  /** Map order doubles as recency order: oldest first */
+  private entries: Map<string, CacheEntry> = new Map();
+  private readonly maxEntries: number;
+  private readonly ttl?: number;
+
+  /**
+   * @param options - `maxEntries` (default: 1000) and default `ttl` in milliseconds (default: none)
+   */
+  constructor(options: { maxEntries?: number; ttl?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttl = options.ttl;
+  }
+
+  /** Number of stored responses, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<AIResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (isExpired(entry)) return undefined;
+
+    this.entries.set(key, entry);
+    return structuredClone(entry.response);
+  }
+
+  async set(key: string, response: AIResponse, ttl = this.ttl): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { response: structuredClone(response), expiresAt: getExpiry(ttl) });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Response cache keeping one JSON file per response in a directory, shared across
+ * processes and restarts. Expired files are removed when read.
+ * @class FileResponseCache
+ * @example
+ * const ai = new AIModel({ apiKey, cache: new FileResponseCache('./.ai-cache', { ttl: 86_400_000 }) });
+ */
+export class FileResponseCache implements ResponseCache {
+  /**
+   * @param directory - Directory for cache files (created on first write)
+   * @param options - Default `ttl` in milliseconds (default: none)
+   */
+  constructor(private readonly directory: string, private readonly options: { ttl?: number } = {}) {}
+
+  async get(key: string): Promise<AIResponse | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.response;
+  }
+
+  async set(key: string, response: AIResponse, ttl = this.options.ttl): Promise<void> {
+    const entry: CacheEntry = { response, expiresAt: getExpiry(ttl) };
+    await writeFileAtomic(this.filePath(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+/**
+ * Information about the request passed to every middleware hook
+ * @interface MiddlewareContext
+ */
+export interface MiddlewareContext {
+  /** Provider handling the current model call (changes on fallback) */
+  provider: string;
+  /** Model of the current model call */
+  model: string;
+  /** True for stream() and streamEvents() */
+  stream: boolean;
+  /** Model call within the request: 0 for the first, counting up with each tool round */
+  iteration: number;
+  /** Scratch space shared by all hooks during one request */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Hooks around send(), stream() and streamEvents(). All hooks are optional
+ * and run in registration order, global middleware (ConfigManager.use) first.
+ * @interface Middleware
+ * @example
+ * ai.use({
+ *   name: 'tracing',
+ *   onRequest(request, context) {
+ *     request.headers = { ...request.headers, 'X-Trace-Id': String(context.state.traceId ??= randomUUID()) };
+ *   },
+ *   onResponse(response) {
+ *     return { ...response, content: response.content.trim() };
+ *   },
+ * });
+ */
+export interface Middleware {
+  /** Name shown in logs */
+  name?: string;
+  /**
+   * Called before every model call (each tool round and fallback). Modify the
+   * request in place - messages, model, sampling parameters, headers - or return
+   * a response to skip the provider call
+   */
+  onRequest?(request: TransportRequest, context: MiddlewareContext):
+    void | TransportResponse | Promise<void | TransportResponse>;
+  /**
+   * Called with each streamed text delta; returns the text to emit instead
+   */
+  onStreamDelta?(delta: string, context: MiddlewareContext): string;
+  /**
+   * Called once with the final response before it is returned and added to
+   * history. Return a replacement or modify it in place
+   */
+  onResponse?(response: AIResponse, context: MiddlewareContext):
+    void | AIResponse | Promise<void | AIResponse>;
+  /**
+   * Called once when the request fails. Return a response to recover, throw to
+   * replace the error, or return nothing to let it propagate
+   */
+  onError?(error: AIError, context: MiddlewareContext):
+    void | AIResponse | Promise<void | AIResponse>;
+}
+
+/** Replay a complete response as stream chunks */
+async function* responseToChunks(response: TransportResponse): AsyncGenerator<TransportChunk> {
+  yield {
+    content: response.content || undefined,
+    toolCalls: response.toolCalls.map((call, index) => ({
+      index,
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    })),
+    usage: response.usage,
+    model: response.model,
+    finishReason: response.finishReason,
+  };
+}
+
+// ============================================
+// TELEMETRY
+// ============================================
+
+/** Span attribute values, as in OpenTelemetry */
+export type SpanAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+/**
+ * A finished span. Attribute names follow the OpenTelemetry GenAI semantic
+ * conventions (`gen_ai.*`); library-specific attributes use the `ai.*` prefix.
+ * @interface SpanData
+ */
+export interface SpanData {
+  /** Span name, e.g. `ai.send`, `chat gpt-4o` or `execute_tool get_weather` */
+  name: string;
+  /** `client` for calls to a provider, `internal` otherwise */
+  kind: 'client' | 'internal';
+  /** 32 hex characters shared by all spans of one request */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** Span ID of the parent, undefined for the request span */
+  parentSpanId?: string;
+  /** Start time (epoch ms) */
+  startTime: number;
+  /** End time (epoch ms) */
+  endTime: number;
+  /** Duration in milliseconds */
+  duration: number;
+  /** Span attributes */
+  attributes: SpanAttributes;
+  /** Timestamped events, e.g. fallback hops and the first streamed chunk */
+  events: Array<{ name: string; time: number; attributes?: SpanAttributes }>;
+  /** Outcome */
+  status: 'ok' | 'error';
+  /** Error message when status is `error` */
+  statusMessage?: string;
+}
+
+/**
+ * Where telemetry goes
+ * @interface TelemetryOptions
+ */
+export interface TelemetryOptions {
+  /** Called with every finished span, e.g. to forward it to an OpenTelemetry exporter */
+  onSpan?: (span: SpanData) => void;
+  /** Registry that receives request, token, latency, retry and error metrics */
+  metrics?: MetricsRegistry;
+}
+
+/** Span being recorded; finished spans are handed to the sink as SpanData */
+class ActiveSpan {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly startTime = Date.now();
+  private readonly events: SpanData['events'] = [];
+  private ended = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly kind: SpanData['kind'],
+    private readonly attributes: SpanAttributes,
+    private readonly onEnd: (span: SpanData) => void,
+    private readonly parent?: ActiveSpan
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+  }
+
+  child(name: string, kind: SpanData['kind'], attributes: SpanAttributes): ActiveSpan {
+    return new ActiveSpan(name, kind, attributes, this.onEnd, this);
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): void {
+    this.events.push({ name, time: Date.now(), attributes });
+  }
+
+  /** Finish the span; only the first call has an effect */
+  end(error?: Error): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    if (error) this.attributes['error.type'] = error.name;
+    const endTime = Date.now();
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parent?.spanId,
+      startTime: this.startTime,
+      endTime,
+      duration: endTime - this.startTime,
+      attributes: this.attributes,
+      events: this.events,
+      status: error ? 'error' : 'ok',
+      statusMessage: error?.message,
+    });
+  }
+}
+
+/** Metric labels */
+export type MetricLabels = Record<string, string>;
+
+/** Stable series key for a label set */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Render labels in Prometheus text format */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Monotonic counter with labels
+ * @class Counter
+ */
+export class Counter {
+  readonly type = 'counter';
+  private series: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  /**
+   * Increase the counter
+   * @param labels - Series labels
+   * @param value - Amount to add (default: 1)
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) || { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Current value of a series
+   * @param labels - Series labels
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  /** Prometheus text format lines */
+  toPrometheus(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+/**
+ * Histogram with fixed buckets and labels
+ * @class Histogram
+ */
+export class Histogram {
+  readonly type = 'histogram';
+  private series: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }> = new Map();
+
+  /**
+   * @param name - Metric name
+   * @param help - Description
+   * @param buckets - Upper bounds, ascending
+   */
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  /**
+   * Record a value
+   * @param labels - Series labels
+   * @param value - Observed value
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Count and sum of a series
+   * @param labels - Series labels
+   */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const series = this.series.get(seriesKey(labels));
+    return { count: series?.count ?? 0, sum: series?.sum ?? 0 };
+  }
+
+  /** Prometheus text format lines */
+  toPrometheus(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/** Host part of a provider base URL, for the `server.address` attribute */
+function getHostname(baseURL: string): string | undefined {
+  try {
+    return new URL(baseURL).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Latency buckets in seconds */
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 40, 80];
+/** Time-to-first-chunk buckets in seconds */
+const FIRST_CHUNK_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+/**
+ * In-process registry of counters and histograms with Prometheus text export
+ * @class MetricsRegistry
+ * @example
+ * const metrics = new MetricsRegistry();
+ * const ai = new AIModel({ apiKey, telemetry: { metrics } });
+ *
+ * // e.g. in an HTTP handler for /metrics
+ * res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+ * res.end(metrics.toPrometheus());
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Counter | Histogram> = new Map();
+
+  /**
+   * Get or create a counter
+   * @param name - Metric name
+   * @param help - Description
+   * @throws {ValidationError} If the name is registered as a histogram
+   */
+  counter(name: string, help: string): Counter {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Counter) return existing;
+    if (existing) throw new ValidationError(`Metric '${name}' is already registered as a ${existing.type}`);
+
+    const counter = new Counter(name, help);
+    this.metrics.set(name, counter);
+    return counter;
+  }
+
+  /**
+   * Get or create a histogram
+   * @param name - Metric name
+   * @param help - Description
+   * @param buckets - Upper bounds, ascending (default: latency buckets in seconds)
+   * @throws {ValidationError} If the name is registered as a counter
+   */
+  histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Histogram) return existing;
+    if (existing) throw new ValidationError(`Metric '${name}' is already registered as a ${existing.type}`);
+
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.set(name, histogram);
+    return histogram;
+  }
+
+  /**
+   * Get a registered metric
+   * @param name - Metric name
+   */
+  getMetric(name: string): Counter | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Export all metrics in Prometheus text exposition format
+   * @returns Metrics text
+   */
+  toPrometheus(): string {
+    return Array.from(this.metrics.values(), metric => metric.toPrometheus().join('\n')).join('\n\n') + '\n';
+  }
+
+  /** Remove all metrics */
+  reset(): void {
+    this.metrics.clear();
+  }
+}
+
+// ============================================
+// BATCH PROCESSING
+// ============================================
+
+/**
+ * One independent request in a batch
+ * @interface BatchRequest
+ */
+export interface BatchRequest {
+  /** Caller's identifier, echoed in the result (default: the index) */
+  id?: string;
+  /** Prompt sent as a single user message */
+  input?: string | MessageContent[];
+  /** Full conversation to send instead of `input` */
+  messages?: Message[];
+  /** System prompt override for this request */
+  systemPrompt?: string;
+  /** Request options for this request, on top of the batch-wide options */
+  options?: RequestOptions;
+}
+
+/**
+ * Settings for AIModel.batch()
+ * @interface BatchOptions
+ */
+export interface BatchOptions {
+  /** Requests in flight at once (default: 5) */
+  concurrency?: number;
+  /** Request options applied to every request */
+  options?: RequestOptions;
+  /** Called whenever a request finishes (or, in native mode, after each status check) */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Cancels requests that have not finished */
+  signal?: AbortSignal;
+  /** Use the provider's asynchronous Batch API when it has one (default: false) */
+  native?: boolean;
+  /** Time between native batch status checks in milliseconds (default: 30000) */
+  pollInterval?: number;
+}
+
+/**
+ * Batch progress report
+ * @interface BatchProgress
+ */
+export interface BatchProgress {
+  /** Requests finished, successfully or not */
+  completed: number;
+  /** Requests that failed */
+  failed: number;
+  /** Number of requests in the batch */
+  total: number;
+  /** Result that just finished (not set for native status checks) */
+  result?: BatchItemResult;
+}
+
+/** Outcome of one batch request */
+export type BatchItemResult =
+  | { id: string; index: number; status: 'success'; response: AIResponse }
+  | { id: string; index: number; status: 'error'; error: AIError };
+
+/**
+ * Outcome of a whole batch
+ * @interface BatchResult
+ */
+export interface BatchResult {
+  /** Per-request results, in request order */
+  results: BatchItemResult[];
+  /** Number of successful requests */
+  succeeded: number;
+  /** Number of failed requests */
+  failed: number;
+  /** Token usage of all successful requests */
+  usage: TokenUsage;
+  /** Cost of all successful requests (undefined if any used an unpriced model) */
+  cost?: CostBreakdown;
+  /** Wall-clock duration in milliseconds */
+  duration: number;
+  /** Whether the provider's Batch API was used */
+  native: boolean;
+}
+
+// ============================================
+// EMBEDDINGS
+// ============================================
+
+/**
+ * Per-request limits of a provider's embeddings API
+ * @interface EmbeddingLimits
+ */
+export interface EmbeddingLimits {
+  /** Maximum number of inputs per request */
+  maxInputs?: number;
+  /** Maximum total input tokens per request */
+  maxTokens?: number;
+  /** Maximum tokens of a single input */
+  maxInputTokens?: number;
+}
+
+/** Share of maxTokens a batch may fill, since token counts are estimates */
+const EMBEDDING_TOKEN_HEADROOM = 0.8;
+
+/**
+ * Options for embed()
+ * @interface EmbedOptions
+ */
+export interface EmbedOptions {
+  /** Embedding model (default: the provider's embeddingModel) */
+  model?: string;
+  /** Output vector size, for models that support shortening (e.g. text-embedding-3) */
+  dimensions?: number;
+  /** Maximum inputs per request, below the provider's limit (default: provider limit) */
+  batchSize?: number;
+  /** Extra HTTP headers for each request */
+  headers?: Record<string, string>;
+  /** Cancels the remaining requests when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of embed()
+ * @interface EmbeddingResult
+ */
+export interface EmbeddingResult {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+  /** Token usage across all requests */
+  usage: TokenUsage;
+  /** Cost in USD (undefined for unpriced models) */
+  cost?: CostBreakdown;
+  /** Model that created the embeddings */
+  model: string;
+  /** Provider that created the embeddings */
+  provider: string;
+  /** Number of requests the input was split into */
+  requests: number;
+}
+
+/**
+ * Split texts into consecutive batches within the input-count and token limits
+ * Batches fill maxTokens only up to EMBEDDING_TOKEN_HEADROOM. A single text over the
+ * batch token limit gets a batch of its own (the provider reports the error).
+ * @returns Batches as lists of texts, in input order
+ * @throws {ValidationError} If a text is estimated to exceed maxInputTokens ('embedding_input_too_long')
+ */
+function splitEmbeddingBatches(
+  texts: string[],
+  limits: EmbeddingLimits,
+  countTokens: (text: string) => number
+): Array<{ texts: string[]; tokens: number }> {
+  const batches: Array<{ texts: string[]; tokens: number }> = [];
+  let current = { texts: [] as string[], tokens: 0 };
+  const maxTokens = Math.floor((limits.maxTokens ?? Infinity) * EMBEDDING_TOKEN_HEADROOM);
+
+  for (const [index, text] of texts.entries()) {
+    const tokens = countTokens(text);
+    if (tokens > (limits.maxInputTokens ?? Infinity)) {
+      throw new ValidationError(
+        `Embedding input ${index} is about ${tokens} tokens; the limit is ${limits.maxInputTokens}`,
+        { code: 'embedding_input_too_long' }
+      );
+    }
+    const full = current.texts.length >= (limits.maxInputs ?? Infinity)
+      || current.tokens + tokens > maxTokens;
+    if (full && current.texts.length > 0) {
+      batches.push(current);
+      current = { texts: [], tokens: 0 };
+    }
+    current.texts.push(text);
+    current.tokens += tokens;
+  }
+
+  if (current.texts.length > 0) batches.push(current);
+  return batches;
+}
+
+// ============================================
+// RETRIEVAL
+// ============================================
+
+/**
+ * A piece of a document, the unit that is embedded and retrieved
+ * @interface TextChunk
+ */
+export interface TextChunk {
+  /** Unique ID: `${source}#${index}` */
+  id: string;
+  /** Chunk text */
+  text: string;
+  /** Where the chunk came from, e.g. a file name or URL */
+  source: string;
+  /** Position of the chunk within its source */
+  index: number;
+  /** Extra data, e.g. the heading path for markdown chunks */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A chunk with its embedding, as stored in a VectorIndex
+ * @interface IndexedChunk
+ */
+export interface IndexedChunk extends TextChunk {
+  embedding: number[];
+}
+
+/**
+ * A chunk returned by a search, with its similarity to the query
+ * @interface RetrievedChunk
+ */
+export interface RetrievedChunk extends TextChunk {
+  /** Cosine similarity to the query, from -1 to 1 */
+  score: number;
+}
+
+/**
+ * Options for the chunkers
+ * @interface ChunkOptions
+ */
+export interface ChunkOptions {
+  /** Maximum chunk length in characters (default: 1000) */
+  size?: number;
+  /** Characters repeated from the end of the previous chunk (default: 200) */
+  overlap?: number;
+  /** Source name stored on every chunk (default: 'document') */
+  source?: string;
+  /** Metadata stored on every chunk */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for searching a VectorIndex
+ * @interface SearchOptions
+ */
+export interface SearchOptions {
+  /** Number of chunks to return (default: 4) */
+  topK?: number;
+  /** Minimum cosine similarity for a chunk to be returned */
+  minScore?: number;
+  /** Only consider chunks this returns true for */
+  filter?: (chunk: TextChunk) => boolean;
+}
+
+/**
+ * Options for sendGrounded()
+ * @interface GroundedSendOptions
+ */
+export interface GroundedSendOptions extends RequestOptions, SearchOptions {
+  /** Instructions placed before the retrieved sources (default: answer from the sources and cite them) */
+  instructions?: string;
+}
+
+/** Format of files written by VectorIndex.save() */
+interface SerializedVectorIndex {
+  version: number;
+  model?: string;
+  /** `dimensions` requested from the embeddings API, if any */
+  dimensions?: number;
+  chunks: IndexedChunk[];
+}
+
+const VECTOR_INDEX_SCHEMA_VERSION = 1;
+
+const DEFAULT_GROUNDING_INSTRUCTIONS =
+  'Answer using only the numbered sources below and cite them like [1]. ' +
+  'If the sources do not contain the answer, say so.';
+
+/**
+ * Cosine similarity of two vectors
+ * @returns Similarity from -1 to 1 (0 when either vector is all zeros)
+ * @throws {ValidationError} If the vectors differ in length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new ValidationError(`Cannot compare vectors of ${a.length} and ${b.length} dimensions`, {
+      code: 'dimension_mismatch',
+    });
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Split text into windows of at most `size` characters, preferring paragraph, line, sentence and word breaks */
+function splitWindows(text: string, size: number, overlap: number): string[] {
+  const windows: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      // Only break early if that keeps at least half the window
+      const breakAt = ['\n\n', '\n', '. ', ' ']
+        .map(separator => window.lastIndexOf(separator) + separator.length)
+        .find(position => position > size / 2);
+      if (breakAt) end = start + breakAt;
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) windows.push(chunk);
+    if (end >= text.length) break;
+    // Start the overlap on a word boundary
+    const overlapStart = end - overlap;
+    const space = text.indexOf(' ', overlapStart);
+    start = Math.max(space !== -1 && space < end ? space + 1 : overlapStart, start + 1);
+  }
+
+  return windows;
+}
+
+/** Fill in chunker defaults and check them */
+function resolveChunkOptions(options: ChunkOptions) {
+  const { size = 1000, overlap = 200, source = 'document', metadata } = options;
+  if (size <= 0 || overlap < 0 || overlap >= size) {
+    throw new ValidationError('Chunk size must be positive and overlap smaller than size', {
+      code: 'invalid_chunk_options',
+    });
+  }
+  return { size, overlap, source, metadata };
+}
+
+/**
+ * Split text into overlapping chunks of at most `size` characters
+ * Breaks fall on paragraph, line, sentence or word boundaries where possible
+ * @param text - Text to split
+ * @param options - Size, overlap, source and metadata
+ * @returns Chunks in text order
+ * @throws {ValidationError} If overlap is not smaller than size
+ * @example
+ * const chunks = chunkText(await fs.readFile('./faq.txt', 'utf8'), { size: 800, overlap: 100, source: 'faq.txt' });
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const { size, overlap, source, metadata } = resolveChunkOptions(options);
+  return splitWindows(text, size, overlap).map((chunk, index) => ({
+    id: `${source}#${index}`,
+    text: chunk,
+    source,
+    index,
+    ...(metadata && { metadata: { ...metadata } }),
+  }));
+}
+
+/**
+ * Split markdown into one chunk per section, by headings
+ * Each chunk starts with its heading and records the heading path in
+ * `metadata.headings`; sections longer than `size` are split further like chunkText().
+ * Headings inside fenced code blocks are ignored.
+ * @param markdown - Markdown text
+ * @param options - Size, overlap, source and metadata
+ * @returns Chunks in document order
+ * @throws {ValidationError} If overlap is not smaller than size
+ * @example
+ * const chunks = chunkMarkdown(readme, { source: 'README.md' });
+ * chunks[3].metadata?.headings; // ['Installation', 'Prerequisites']
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions = {}): TextChunk[] {
+  const { size, overlap, source, metadata } = resolveChunkOptions(options);
+  const sections: Array<{ headings: string[]; lines: string[] }> = [{ headings: [], lines: [] }];
+  const headingPath: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      headingPath.length = level - 1;
+      headingPath[level - 1] = heading[2];
+      sections.push({ headings: headingPath.filter(Boolean), lines: [] });
+    }
+    sections[sections.length - 1].lines.push(line);
+  }
+
+  const chunks: TextChunk[] = [];
+  for (const section of sections) {
+    for (const text of splitWindows(section.lines.join('\n'), size, overlap)) {
+      const index = chunks.length;
+      chunks.push({
+        id: `${source}#${index}`,
+        text,
+        source,
+        index,
+        metadata: { ...metadata, headings: section.headings },
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * In-memory vector index with cosine-similarity search, persistable to a JSON file
+ * The index remembers the embedding model and dimensions it was built with, and
+ * uses them for queries so query and chunk vectors stay comparable.
+ * @class VectorIndex
+ * @example
+ * const index = new VectorIndex();
+ * await index.addChunks(ai, chunkMarkdown(handbook, { source: 'handbook.md' }));
+ * await index.save('./handbook.index.json');
+ *
+ * const hits = await index.query(ai, 'How do I reset my password?', { topK: 3 });
+ */
+export class VectorIndex {
+  private chunks: Map<string, IndexedChunk> = new Map();
+  private model?: string;
+  /** Vector size asked of the embeddings API - only sent when the caller set it */
+  private dimensions?: number;
+  /** Size of the vectors in the index, from the first one added */
+  private vectorSize?: number;
+
+  /**
+   * @param options - Embedding model (default: the provider's) and the `dimensions` to request
+   *   (default: the model's native size; only some models, like text-embedding-3, accept it)
+   */
+  constructor(options: { model?: string; dimensions?: number } = {}) {
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+  }
+
+  /** Number of chunks in the index */
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /** Embedding model the index was built with, once known */
+  get embeddingModel(): string | undefined {
+    return this.model;
+  }
+
+  /**
+   * Embed chunks with ai.embed() and add them, replacing chunks with the same ID
+   * @param ai - Model instance whose provider creates the embeddings
+   * @param chunks - Chunks to add
+   * @param options - Cancellation signal
+   * @returns Embedding usage and cost
+   */
+  async addChunks(ai: AIModel, chunks: TextChunk[], options: { signal?: AbortSignal } = {}): Promise<EmbeddingResult> {
+    const result = await ai.embed(chunks.map(chunk => chunk.text), {
+      model: this.model,
+      dimensions: this.dimensions,
+      signal: options.signal,
+    });
+    this.model = result.model;
+    this.add(chunks.map((chunk, i) => ({ ...chunk, embedding: result.embeddings[i] })));
+    return result;
+  }
+
+  /**
+   * Add chunks that already have embeddings, replacing chunks with the same ID
+   * @returns This instance for chaining
+   * @throws {ValidationError} If a vector's size differs from the index's
+   */
+  add(chunks: IndexedChunk[]): this {
+    for (const chunk of chunks) {
+      this.vectorSize ??= chunk.embedding.length;
+      if (chunk.embedding.length !== this.vectorSize) {
+        throw new ValidationError(
+          `Chunk '${chunk.id}' has ${chunk.embedding.length} dimensions, the index has ${this.vectorSize}`,
+          { code: 'dimension_mismatch' }
+        );
+      }
+      this.chunks.set(chunk.id, chunk);
+    }
+    return this;
+  }
+
+  /**
+   * Remove chunks by ID, or every chunk from a source
+   * @returns Number of chunks removed
+   */
+  remove(selector: string[] | { source: string }): number {
+    const ids = Array.isArray(selector)
+      ? selector
+      : [...this.chunks.values()].filter(chunk => chunk.source === selector.source).map(chunk => chunk.id);
+    return ids.filter(id => this.chunks.delete(id)).length;
+  }
+
+  /** Remove every chunk (the embedding model and dimensions are kept) */
+  clear(): void {
+    this.chunks.clear();
+  }
+
+  /**
+   * Find the chunks most similar to a vector
+   * @param vector - Query embedding
+   * @param options - topK, minScore and filter
+   * @returns Best matches first
+   */
+  search(vector: number[], options: SearchOptions = {}): RetrievedChunk[] {
+    const { topK = 4, minScore = -Infinity, filter } = options;
+    const results: RetrievedChunk[] = [];
+
+    for (const { embedding, ...chunk } of this.chunks.values()) {
+      if (filter && !filter(chunk)) continue;
+      const score = cosineSimilarity(vector, embedding);
+      if (score >= minScore) results.push({ ...chunk, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Embed a query with the index's model and find the most similar chunks
+   * @param ai - Model instance whose provider creates the query embedding
+   * @param text - Query text
+   * @param options - topK, minScore, filter and a cancellation signal
+   * @returns Best matches first
+   */
+  async query(ai: AIModel, text: string, options: SearchOptions & { signal?: AbortSignal } = {}): Promise<RetrievedChunk[]> {
+    if (this.chunks.size === 0) return [];
+
+    const { embeddings: [vector] } = await ai.embed(text, {
+      model: this.model,
+      dimensions: this.dimensions,
+      signal: options.signal,
+    });
+    return this.search(vector, options);
+  }
+
+  /**
+   * Write the index to a JSON file (through a temporary file, so a crash never leaves a partial index)
+   * @param file - Path of the index file; missing directories are created
+   */
+  async save(file: string): Promise<void> {
+    const data: SerializedVectorIndex = {
+      version: VECTOR_INDEX_SCHEMA_VERSION,
+      model: this.model,
+      dimensions: this.dimensions,
+      chunks: [...this.chunks.values()],
+    };
+    await writeFileAtomic(file, JSON.stringify(data));
+  }
+
+  /**
+   * Read an index written by save()
+   * @param file - Path of the index file
+   * @returns Loaded index
+   * @throws {ValidationError} If the file was written by a newer, unknown format version
+   */
+  static async load(file: string): Promise<VectorIndex> {
+    const data: SerializedVectorIndex = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (data.version > VECTOR_INDEX_SCHEMA_VERSION) {
+      throw new ValidationError(`Unsupported vector index version ${data.version}`, {
+        code: 'unsupported_version',
+      });
+    }
+    return new VectorIndex({ model: data.model, dimensions: data.dimensions }).add(data.chunks);
+  }
+}
+
+// ============================================
+// PROMPT TEMPLATES
+// ============================================
+
+/** Runtime type of a template variable */
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Declaration of a template variable, checked before rendering
+ * @interface TemplateVariable
+ */
+export interface TemplateVariable {
+  /** Expected type (unchecked if omitted) */
+  type?: TemplateVariableType;
+  /** Whether a value must be given (default: true unless there is a default) */
+  required?: boolean;
+  /** Value used when none is given */
+  default?: unknown;
+  /** What the variable is for */
+  description?: string;
+}
+
+/**
+ * How `{{variable}}` output is escaped (`{{{variable}}}` is never escaped)
+ * - `none`: inserted as is
+ * - `xml`: `& < > " '` become entities, for values inside XML-style tags
+ * - `json`: escaped for use inside a JSON string
+ */
+export type TemplateEscape = 'none' | 'xml' | 'json' | ((value: string) => string);
+
+/**
+ * A named, versioned prompt
+ * Text uses `{{name}}` / `{{user.name}}` for variables, `{{{name}}}` for unescaped
+ * output, `{{#if x}}...{{else}}...{{/if}}`, `{{#unless x}}...{{/unless}}`,
+ * `{{#each items}}{{this}} {{@index}}{{/each}}` and `{{> partial}}`. Write
+ * `\{{` for a literal `{{`.
+ * @interface PromptTemplate
+ * @example
+ * const support = registry.register<{ product: string; pro?: boolean }>({
+ *   id: 'support',
+ *   version: 'v3',
+ *   system: 'You support {{product}}.{{#if pro}} Offer phone support.{{/if}}',
+ *   variables: { product: { type: 'string' }, pro: { type: 'boolean', default: false } },
+ * });
+ */
+export interface PromptTemplate<V extends object = Record<string, unknown>> {
+  /** Template ID, e.g. 'support' or 'billing/refunds' */
+  id: string;
+  /** Version name, e.g. 'v3' */
+  version: string;
+  /** What the template is for */
+  description?: string;
+  /** System prompt text */
+  system?: string;
+  /** Messages added to the conversation, in order */
+  messages?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Variable declarations */
+  variables?: { [K in keyof V & string]?: TemplateVariable };
+  /** Escaping of `{{variable}}` output (default: 'none') */
+  escape?: TemplateEscape;
+}
+
+/**
+ * Identifies the template version behind a response
+ * @interface TemplateRef
+ */
+export interface TemplateRef {
+  id: string;
+  version: string;
+}
+
+/**
+ * Result of rendering a template
+ * @interface RenderedPrompt
+ */
+export interface RenderedPrompt extends TemplateRef {
+  /** Rendered system prompt, if the template has one */
+  system?: string;
+  /** Rendered messages */
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+/** Parsed template text */
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string; raw: boolean }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+/** A variable scope while rendering: the current value plus loop locals like @index */
+interface TemplateScope {
+  value: unknown;
+  locals?: Record<string, unknown>;
+}
+
+/** Matches an escaped `\{{`, a raw `{{{x}}}` tag or a `{{...}}` tag */
+const TEMPLATE_TAG_PATTERN = /\\\{\{|\{\{\{\s*(.+?)\s*\}\}\}|\{\{\s*(.+?)\s*\}\}/g;
+
+/** Nested partials deeper than this are assumed to be recursive */
+const MAX_PARTIAL_DEPTH = 10;
+
+const TEMPLATE_ESCAPES: Record<'none' | 'xml' | 'json', (value: string) => string> = {
+  none: value => value,
+  xml: value => value.replace(/[&<>"']/g, char => `&${{ '&': 'amp', '<': 'lt', '>': 'gt', '"': 'quot', "'": 'apos' }[char]};`),
+  json: value => JSON.stringify(value).slice(1, -1),
+};
+
+/**
+ * Parse template text into nodes
+ * Block tags alone on a line take the whole line with them, so they leave no blank lines
+ * @throws {ValidationError} With code 'invalid_template' for unbalanced or unknown tags
+ */
+function parseTemplate(source: string, name: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, with the node list to return to when each closes
+  const blocks: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; keyword: string; parent: TemplateNode[] }> = [];
+  let nodes = root;
+  let last = 0;
+
+  const fail = (message: string): never => {
+    throw new ValidationError(`Template '${name}': ${message}`, { code: 'invalid_template' });
+  };
+
+  for (const match of source.matchAll(TEMPLATE_TAG_PATTERN)) {
+    const [tag, raw, inner] = match;
+    let start = match.index!;
+    let end = start + tag.length;
+
+    const block = inner?.match(/^(#if|#unless|#each|\/if|\/unless|\/each|else)\b\s*(.*)$/);
+    if (block) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = source.slice(end).match(/^[ \t]*(\r?\n|$)/);
+      if (lineEnd && lineStart >= last && /^[ \t]*$/.test(source.slice(lineStart, start))) {
+        start = lineStart;
+        end += lineEnd[0].length;
+      }
+    }
+    if (start > last) nodes.push({ type: 'text', value: source.slice(last, start) });
+    last = end;
+
+    if (tag === '\\{{') {
+      nodes.push({ type: 'text', value: '{{' });
+    } else if (raw !== undefined) {
+      nodes.push({ type: 'var', path: raw, raw: true });
+    } else if (inner.startsWith('>')) {
+      nodes.push({ type: 'partial', name: inner.slice(1).trim() });
+    } else if (!block) {
+      if (/^[#/]/.test(inner)) fail(`unknown tag '{{${inner}}}'`);
+      nodes.push({ type: 'var', path: inner, raw: false });
+    } else {
+      const [, keyword, path] = block;
+      if (keyword.startsWith('#')) {
+        if (!path) fail(`'{{${keyword}}}' needs a variable`);
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === '#each'
+          ? { type: 'each', path, body: [] }
+          : { type: 'if', path, negate: keyword === '#unless', then: [], else: [] };
+        nodes.push(node);
+        blocks.push({ node, keyword: keyword.slice(1), parent: nodes });
+        nodes = node.type === 'each' ? node.body : node.then;
+      } else if (keyword === 'else') {
+        const open = blocks[blocks.length - 1];
+        if (open?.node.type !== 'if' || nodes === open.node.else) fail(`unexpected '{{else}}'`);
+        nodes = (open.node as Extract<TemplateNode, { type: 'if' }>).else;
+      } else {
+        const open = blocks.pop();
+        if (open?.keyword !== keyword.slice(1)) fail(`unexpected '{{${keyword}}}'`);
+        nodes = open!.parent;
+      }
+    }
+  }
+
+  if (blocks.length > 0) fail(`'{{#${blocks[blocks.length - 1].keyword}}}' is not closed`);
+  if (last < source.length) nodes.push({ type: 'text', value: source.slice(last) });
+  return root;
+}
+
+/** Look a dotted path up in the innermost scope that has its first segment */
+function resolveTemplatePath(path: string, scopes: TemplateScope[]): unknown {
+  if (path.startsWith('@')) {
+    return scopes.find(scope => scope.locals && Object.hasOwn(scope.locals, path))?.locals![path];
+  }
+
+  const [first, ...rest] = path.split('.');
+  let value: unknown;
+  if (first === 'this') {
+    value = scopes[0].value;
+  } else {
+    const scope = scopes.find(scope =>
+      scope.value !== null && typeof scope.value === 'object' && Object.hasOwn(scope.value, first)
+    );
+    value = scope && (scope.value as Record<string, unknown>)[first];
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Runtime type of a value, as used in variable declarations */
+function templateValueType(value: unknown): TemplateVariableType {
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+/**
+ * Registry of versioned prompt templates and shared partials
+ * Templates are parsed when registered, so syntax errors surface early. A template
+ * is referenced as 'id' (latest registered version) or 'id/version'.
+ * The global registry is owned by ConfigManager (getPromptRegistry()).
+ * @class PromptRegistry
+ * @example
+ * const prompts = ConfigManager.getInstance().getPromptRegistry();
+ * prompts.registerPartial('tone', 'Be concise and friendly.');
+ * prompts.register({ id: 'support', version: 'v3', system: 'You support {{product}}. {{> tone}}' });
+ *
+ * ai.useTemplate('support/v3', { product: 'Acme CRM' });
+ */
+export class PromptRegistry {
+  /** Versions of each template, in registration order */
+  private templates: Map<string, PromptTemplate[]> = new Map();
+  private partials: Map<string, string> = new Map();
+  /** Parsed text of registered templates and partials, keyed by the text itself */
+  private parsed: Map<string, TemplateNode[]> = new Map();
+
+  /**
+   * Register a template version; the newest registration becomes the latest version
+   * @param template - Template to register
+   * @returns The template, typed for useTemplate()
+   * @throws {ValidationError} If the version already exists ('duplicate_template') or the text is invalid
+   */
+  register<V extends object = Record<string, unknown>>(template: PromptTemplate<V>): PromptTemplate<V> {
+    if (!template.id || !template.version) {
+      throw new ValidationError('Templates need an id and a version', { code: 'invalid_template' });
+    }
+    const versions = this.templates.get(template.id) || [];
+    if (versions.some(existing => existing.version === template.version)) {
+      throw new ValidationError(`Template '${template.id}/${template.version}' is already registered`, {
+        code: 'duplicate_template',
+      });
+    }
+
+    const name = `${template.id}/${template.version}`;
+    // Parse everything before caching, so a failed registration leaves nothing behind
+    const texts = [template.system, ...(template.messages || []).map(message => message.content)]
+      .filter((text): text is string => text !== undefined);
+    const parsed = texts.map(text => parseTemplate(text, name));
+    texts.forEach((text, index) => this.parsed.set(text, parsed[index]));
+
+    versions.push(template as PromptTemplate);
+    this.templates.set(template.id, versions);
+    return template;
+  }
+
+  /**
+   * Register a reusable snippet included with `{{> name}}`
+   * Partials see the variables of the template that includes them
+   * @returns This instance for chaining
+   */
+  registerPartial(name: string, source: string): this {
+    this.parsed.set(source, parseTemplate(source, `partial '${name}'`));
+    this.partials.set(name, source);
+    return this;
+  }
+
+  /**
+   * Get a template by 'id' (latest version) or 'id/version'
+   * @throws {ValidationError} If no such template is registered ('template_not_found')
+   */
+  get(ref: string): PromptTemplate {
+    const latest = this.templates.get(ref);
+    if (latest) return latest[latest.length - 1];
+
+    const slash = ref.lastIndexOf('/');
+    const template = this.templates.get(ref.slice(0, slash))?.find(t => t.version === ref.slice(slash + 1));
+    if (slash === -1 || !template) {
+      throw new ValidationError(`Prompt template '${ref}' not found`, { code: 'template_not_found' });
+    }
+    return template;
+  }
+
+  /** Whether a template reference resolves */
+  has(ref: string): boolean {
+    try {
+      this.get(ref);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** IDs of all registered templates */
+  list(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  /** Versions of a template, oldest first */
+  versions(id: string): string[] {
+    return (this.templates.get(id) || []).map(template => template.version);
+  }
+
+  /**
+   * Remove one version of a template, or all of them
+   * @returns Whether anything was removed
+   */
+  remove(id: string, version?: string): boolean {
+    const versions = this.templates.get(id);
+    if (!versions) return false;
+    if (version === undefined) return this.templates.delete(id);
+
+    const remaining = versions.filter(template => template.version !== version);
+    if (remaining.length === 0) this.templates.delete(id);
+    else this.templates.set(id, remaining);
+    return remaining.length < versions.length;
+  }
+
+  /**
+   * Render a template with variables
+   * Declared variables are checked and defaults filled in first
+   * @param template - Reference ('id' or 'id/version') or a template object
+   * @param variables - Variable values
+   * @returns Rendered system prompt and messages
+   * @throws {ValidationError} 'missing_template_variable' or 'invalid_template_variable' for bad variables
+   */
+  render<V extends object>(template: string | PromptTemplate<V>, variables: V): RenderedPrompt {
+    const resolved = (typeof template === 'string' ? this.get(template) : template) as PromptTemplate;
+    const name = `${resolved.id}/${resolved.version}`;
+    const values = this.checkVariables(resolved, variables as Record<string, unknown>, name);
+    const escape = typeof resolved.escape === 'function' ? resolved.escape : TEMPLATE_ESCAPES[resolved.escape || 'none'];
+    const render = (text: string) =>
+      this.renderNodes(this.parse(text, name), [{ value: values }], escape, name, 0);
+
+    return {
+      id: resolved.id,
+      version: resolved.version,
+      system: resolved.system === undefined ? undefined : render(resolved.system),
+      messages: (resolved.messages || []).map(message => ({ role: message.role, content: render(message.content) })),
+    };
+  }
+
+  /** Parsed nodes of registered text; unregistered templates are parsed on every render */
+  private parse(text: string, name: string): TemplateNode[] {
+    return this.parsed.get(text) || parseTemplate(text, name);
+  }
+
+  /** Apply defaults and check declared variables */
+  private checkVariables(template: PromptTemplate, variables: Record<string, unknown>, name: string) {
+    const values = { ...variables };
+    for (const [key, declaration] of Object.entries(template.variables || {})) {
+      if (!declaration) continue;
+      if (values[key] === undefined) values[key] = declaration.default;
+
+      if (values[key] === undefined) {
+        if (declaration.required === false) continue;
+        throw new ValidationError(`Template '${name}' needs variable '${key}'`, { code: 'missing_template_variable' });
+      }
+      if (declaration.type && templateValueType(values[key]) !== declaration.type) {
+        throw new ValidationError(
+          `Template '${name}' variable '${key}' must be ${declaration.type}, got ${templateValueType(values[key])}`,
+          { code: 'invalid_template_variable' }
+        );
+      }
+    }
+    return values;
+  }
+
+  private renderNodes(
+    nodes: TemplateNode[],
+    scopes: TemplateScope[],
+    escape: (value: string) => string,
+    name: string,
+    depth: number
+  ): string {
+    let output = '';
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'var': {
+          const value = resolveTemplatePath(node.path, scopes);
+          if (value === undefined || value === null) {
+            throw new ValidationError(`Template '${name}' has no value for '{{${node.path}}}'`, {
+              code: 'missing_template_variable',
+            });
+          }
+          const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+          output += node.raw ? text : escape(text);
+          break;
+        }
+        case 'if': {
+          const value = resolveTemplatePath(node.path, scopes);
+          const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+          output += this.renderNodes(truthy !== node.negate ? node.then : node.else, scopes, escape, name, depth);
+          break;
+        }
+        case 'each': {
+          const items = resolveTemplatePath(node.path, scopes) ?? [];
+          if (!Array.isArray(items)) {
+            throw new ValidationError(`Template '${name}' cannot loop over '${node.path}': not an array`, {
+              code: 'invalid_template_variable',
+            });
+          }
+          items.forEach((item, index) => {
+            const locals = { '@index': index, '@first': index === 0, '@last': index === items.length - 1 };
+            output += this.renderNodes(node.body, [{ value: item, locals }, ...scopes], escape, name, depth);
+          });
+          break;
+        }
+        case 'partial': {
+          const source = this.partials.get(node.name);
+          if (source === undefined) {
+            throw new ValidationError(`Template '${name}' uses unknown partial '${node.name}'`, {
+              code: 'template_not_found',
+            });
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new ValidationError(`Template '${name}' nests partials too deeply (recursive partial?)`, {
+              code: 'invalid_template',
+            });
+          }
+          output += this.renderNodes(this.parse(source, `partial '${node.name}'`), scopes, escape, name, depth + 1);
+          break;
+        }
+      }
+    }
+    return output;
+  }
+}
+
+// ============================================
+// MAIN AI MODEL CLASS
+// ============================================
+
+/** A provider/model pair a request can be sent to */
+interface ModelRoute {
+  providerId: string;
+  provider: AIProviderConfig;
+  model: string;
+  transport: Transport;
+}
+
+/** A request built for a route, with the response an onRequest hook answered it with */
+interface PreparedRequest {
+  route: ModelRoute;
+  request: TransportRequest;
+  answer?: TransportResponse;
+}
+
+/**
+ * Primary class for interacting with AI models across multiple providers
+ * Supports chat completion, streaming, image analysis, and conversation management
+ * @class AIModel
+ * @example
+ * // Basic usage
+ * const ai = new AIModel({
+ *   apiKey: 'your-key',
+ *   provider: 'openrouter',
+ *   debug: true
+ * });
+ * 
+ * // Chain messages and send
+ * const response = await ai
+ *   .addUserMessage('Hello!')
+ *   .addUserMessage('How are you?')
+ *   .send();
+ * 
+ * // Quick single message
+ * const quickResponse = await ai.sendTextMessage('Tell me a joke');
+ */
+export class AIModel {
+  private transport: Transport;
+  private readonly apiKey: string;
+  /** Transports for fallback providers, keyed by provider ID and API key */
+  private fallbackTransports: Map<string, Transport> = new Map();
+  private messages: Message[] = [];
+  private tools: Map<string, ToolDefinition> = new Map();
+  private config: ResolvedModelSettings;
+  private provider: AIProviderConfig;
+  private readonly providerId: string;
+  private logger: Logger;
+  /** Running totals checked against the configured budget */
+  private spend: SpendSummary = { cost: 0, tokens: 0, requests: 0 };
+  /** Summary of turns removed by the `summarize` history strategy */
+  private historySummary = '';
+  /** Application data saved with the conversation */
+  private metadata: Record<string, unknown> = {};
+  /** Prompt template recorded on responses (set by useTemplate()) */
+  private template?: TemplateRef;
+  private readonly cache?: ResponseCache;
+  private readonly telemetry: TelemetryOptions;
+  private middleware: Middleware[] = [];
+
+  /**
+   * Create new AI model instance
+   * @param config - Model configuration
+   * @param logger - Optional custom logger
+   * @throws {ValidationError} If API key missing or provider not found
+   */
+  constructor(config: AIModelConfig, logger?: Logger) {
+    // Validate required configuration
+    if (!config.apiKey?.trim()) {
+      throw new ValidationError('API key is required and cannot be empty');
+    }
+
+    // Initialize logging
+    this.logger = logger || new DefaultLogger();
+    this.logger.enable(!!config.debug);
+
+    // Resolve provider configuration
+    const providerId = config.provider || 'openrouter';
+    const provider = ProviderRegistry.getProvider(providerId);
+    
+    if (!provider) {
+      const available = Array.from(ProviderRegistry.getAllProviders().keys()).join(', ');
+      throw new ValidationError(
+        `Provider '${providerId}' not found. Available providers: ${available}. ` +
+        'Use ProviderRegistry.registerProvider() to add custom providers.',
+        { code: 'provider_not_found', provider: providerId }
+      );
+    }
+    
+    this.provider = provider;
+    this.providerId = providerId;
+    this.apiKey = config.apiKey;
+    this.cache = config.cache;
+    this.telemetry = config.telemetry || {};
+
+    // Use the configured transport or create one for the provider's wire protocol
+    this.transport = config.transport || createTransport({
+      apiKey: config.apiKey,
+      provider,
+      timeout: config.timeout || 30000,
+    });
+    
+    // Set configuration with defaults
+    this.config = {
+      model: config.model || provider.defaultModel,
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens || 1000,
+      systemPrompt: config.systemPrompt || '',
+      debug: config.debug ?? false,
+      retryAttempts: config.retryAttempts || 3,
+      timeout: config.timeout || 30000,
+      maxToolIterations: config.maxToolIterations || 5,
+      retryPolicy: config.retryPolicy || {},
+      fallbacks: config.fallbacks || [],
+      budget: config.budget || {},
+      history: config.history || { type: 'full' },
+      tokenEstimator: config.tokenEstimator || estimateTokens,
+      topP: config.topP,
+      stop: config.stop,
+      seed: config.seed,
+      presencePenalty: config.presencePenalty,
+      frequencyPenalty: config.frequencyPenalty,
+      logitBias: config.logitBias,
+      n: config.n,
+      logprobs: config.logprobs,
+      topLogprobs: config.topLogprobs,
+      user: config.user,
+      extraBody: config.extraBody,
+    };
+    this.validateSampling(this.config);
+
+    // Fail fast on unknown fallback providers
+    this.buildRoutes(this.config.model);
+
+    this.logger.log('CONFIG', '🚀 AIModel initialized', {
+      provider: provider.name,
+      protocol: provider.protocol || 'openai',
+      transport: this.transport.constructor.name,
+      model: this.config.model,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      systemPromptPreview: this.config.systemPrompt.substring(0, 100),
+    });
+  }
+
+  // ============================================
+  // CONFIGURATION MANAGEMENT
+  // ============================================
+
+  /**
+   * Set or update the system prompt (context/role for AI)
+   * @param prompt - System prompt text
+   * @returns This instance for chaining
+   * @example
+   * ai.setSystemPrompt('You are a helpful assistant that speaks like a pirate.');
+   */
+  setSystemPrompt(prompt: string): this {
+    this.config.systemPrompt = prompt;
+    this.logger.log('CONFIG', '📝 System prompt updated', {
+      promptLength: prompt.length,
+      promptPreview: prompt.substring(0, 150),
+    });
+    return this;
+  }
+
+  /**
+   * Get current system prompt
+   * @returns Current system prompt
+   */
+  getSystemPrompt(): string {
+    return this.config.systemPrompt;
+  }
+
+  /**
+   * Update model configuration
+   * @param config - Configuration changes
+   * @returns This instance for chaining
+   * @example
+   * ai.updateConfig({
+   *   temperature: 0.9, // More creative
+   *   maxTokens: 2000   // Longer responses
+   * });
+   */
+  updateConfig(config: Partial<ModelSettings>): this {
+    this.validateSampling({ ...this.config, ...config });
+    this.config = { ...this.config, ...config };
+
+    // Log only what changed; the system prompt is content and goes through preview redaction
+    const { systemPrompt, ...changes } = config;
+    this.logger.log('CONFIG', '⚙️ Configuration updated', {
+      changes,
+      ...(systemPrompt !== undefined && { systemPromptPreview: systemPrompt.substring(0, 150) }),
+    });
+    
+    return this;
+  }
+
+  /**
+   * Get current configuration
+   * @returns Read-only copy of current configuration
+   */
+  getConfig(): ResolvedModelSettings {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the running cost and token totals for this instance
+   * @returns Spend since creation or the last resetSpend()
+   * @example
+   * const { cost, tokens, requests } = ai.getSpend();
+   */
+  getSpend(): SpendSummary {
+    return { ...this.spend };
+  }
+
+  /**
+   * Reset the running spend, e.g. at the start of a new billing period
+   * @returns This instance for chaining
+   */
+  resetSpend(): this {
+    // Reset in place: forks created with shareBudget use this object
+    Object.assign(this.spend, { cost: 0, tokens: 0, requests: 0 });
+    this.logger.log('CONFIG', '💰 Spend reset');
+    return this;
+  }
+
+  /**
+   * Enable or disable debug logging
+   * @param enable - Debug state (default: true)
+   * @returns This instance for chaining
+   */
+  enableDebug(enable = true): this {
+    this.config.debug = enable;
+    this.logger.enable(enable);
+    this.logger.log('CONFIG', `🔧 Debug ${enable ? 'enabled' : 'disabled'}`);
+    return this;
+  }
+
+  // ============================================
+  // MESSAGE MANAGEMENT
+  // ============================================
+
+  /**
+   * Add message to conversation history
+   * @param content - Message content (text or structured)
+   * @param role - Message sender role
+   * @returns This instance for chaining
+   * @example
+   * // Text message
+   * ai.addMessage('Hello world!', 'user');
+   * 
+   * // Structured message with image
+   * ai.addMessage([
+   *   { type: 'text', text: 'Describe this image' },
+   *   { type: 'image_url', image_url: { url: 'https://example.com/image.jpg' } }
+   * ], 'user');
+   */
+  addMessage(content: string | MessageContent[], role: 'user' | 'assistant' = 'user'): this {
+    this.messages.push({ role, content });
+    
+    const contentPreview = typeof content === 'string' 
+      ? content.substring(0, 200)
       : JSON.stringify(content).substring(0, 200);
       
     this.logger.log('MESSAGE', `💬 Message added (${role})`, {
@@ -513,24 +5491,72 @@ export class AIModel {
   }
 
   /**
-   * Add message with text and image
+   * Add message with text and one or more images
+   * Images can be URLs, data URLs, local file paths or Buffer/Uint8Array data.
+   * Local data is checked against the provider's format and size limits and sent
+   * as base64; use sendImageMessage() or loadImage() for Blobs.
    * @param text - Text description or question
-   * @param imageUrl - URL of image to analyze
+   * @param images - Image or images to analyze
+   * @param options - Detail level for all images (per-image `{ source, detail }` wins)
    * @returns This instance for chaining
+   * @throws {ValidationError} If a file cannot be read or an image is not accepted
    * @example
    * ai.addImageMessage(
    *   'What is in this image?',
    *   'https://example.com/photo.jpg'
    * );
+   *
+   * ai.addImageMessage('Compare these screenshots', ['./before.png', readFileSync('./after.png')], { detail: 'high' });
    */
-  addImageMessage(text: string, imageUrl: string): this {
+  addImageMessage(text: string, images: ImageInput | ImageInput[], options: { detail?: ImageDetail } = {}): this {
+    const limits = this.provider.imageLimits || {};
+    const inputs = Array.isArray(images) ? images : [images];
     const content: MessageContent[] = [
       { type: 'text', text },
-      { type: 'image_url', image_url: { url: imageUrl } }
+      ...inputs.map((image, index) => createImagePart(image, limits, `Image ${index + 1}`, options.detail)),
     ];
     return this.addMessage(content, 'user');
   }
 
+  /**
+   * Add message with text and one or more audio clips (WAV or MP3)
+   * @param text - Instructions or question about the audio
+   * @param audio - File path or Buffer/Uint8Array, or several
+   * @param options - Format override (default: detected from the content)
+   * @returns This instance for chaining
+   * @throws {ValidationError} If a file cannot be read or its format is not supported
+   * @example
+   * const reply = await ai.addAudioMessage('Transcribe and summarize this voicemail', './voicemail.wav').send();
+   */
+  addAudioMessage(
+    text: string,
+    audio: string | Uint8Array | Array<string | Uint8Array>,
+    options: { format?: AudioFormat } = {}
+  ): this {
+    const clips = Array.isArray(audio) ? audio : [audio];
+    return this.addMessage([{ type: 'text', text }, ...clips.map(clip => createAudioPart(clip, options))], 'user');
+  }
+
+  /**
+   * Add message with text and one or more documents
+   * PDFs are sent as files; text files are sent as documents to Anthropic and inlined as text for OpenAI
+   * @param text - Instructions or question about the documents
+   * @param documents - File path or Buffer/Uint8Array, or several
+   * @param options - File name and MIME type for byte input
+   * @returns This instance for chaining
+   * @throws {ValidationError} If a file cannot be read or its type is unknown
+   * @example
+   * const reply = await ai.addDocumentMessage('List the action items', './minutes.pdf').send();
+   */
+  addDocumentMessage(
+    text: string,
+    documents: string | Uint8Array | Array<string | Uint8Array>,
+    options: { filename?: string; mimeType?: string } = {}
+  ): this {
+    const files = Array.isArray(documents) ? documents : [documents];
+    return this.addMessage([{ type: 'text', text }, ...files.map(file => createDocumentPart(file, options))], 'user');
+  }
+
   /**
    * Get all messages in current conversation
    * @returns Copy of message history
@@ -539,6 +5565,36 @@ export class AIModel {
     return [...this.messages];
   }
 
+  /**
+   * Get the summary of turns compacted by the `summarize` history strategy
+   * @returns Summary text, empty if nothing has been summarized
+   */
+  getHistorySummary(): string {
+    return this.historySummary;
+  }
+
+  /**
+   * Estimate token count with the configured token estimator
+   * @param input - Text or messages to measure (default: the next request's
+   *   system prompt, history and tool definitions)
+   * @param model - Model to estimate for (default: configured model)
+   * @returns Estimated token count
+   * @example
+   * ai.countTokens();                 // size of the next request
+   * ai.countTokens('Hello, world!');  // size of a text
+   */
+  countTokens(input?: string | Message[], model = this.config.model): number {
+    const estimator = this.config.tokenEstimator;
+    if (typeof input === 'string') return estimator(input, model);
+    if (input) return countMessageTokens(input, estimator, model);
+
+    let total = countMessageTokens(this.buildMessages(), estimator, model);
+    for (const tool of this.tools.values()) {
+      total += estimator(tool.name + tool.description + JSON.stringify(tool.parameters), model);
+    }
+    return total;
+  }
+
   /**
    * Clear conversation history
    * @returns This instance for chaining
@@ -546,6 +5602,7 @@ export class AIModel {
   clearMessages(): this {
     const count = this.messages.length;
     this.messages = [];
+    this.historySummary = '';
     this.logger.log('CONFIG', '🗑️ Messages cleared', { clearedCount: count });
     return this;
   }
@@ -556,13 +5613,282 @@ export class AIModel {
    */
   reset(): this {
     this.messages = [];
+    this.historySummary = '';
     this.config.systemPrompt = '';
+    this.template = undefined;
     this.logger.log('CONFIG', '🔄 Model reset', {
       message: 'Cleared all messages and system prompt',
     });
     return this;
   }
 
+  // ============================================
+  // CONVERSATION EDITING
+  // ============================================
+
+  /**
+   * Create an independent copy of this conversation
+   * The fork shares provider, API key, transport, config, tools and logger but has its
+   * own history, metadata and spend, starting from a copy of this instance's; changes to
+   * one never affect the other. Pass `shareBudget` to count both against one budget.
+   * @param options - `shareBudget: true` makes both instances use the same spend counters
+   *   (resetSpend() on either then resets both)
+   * @returns New AIModel instance
+   * @example
+   * const branch = ai.fork();
+   * const [a, b] = await Promise.all([
+   *   ai.sendTextMessage('Make it formal'),
+   *   branch.sendTextMessage('Make it casual'),
+   * ]);
+   *
+   * const agent = ai.fork({ shareBudget: true }); // spends from ai's budget
+   */
+  fork(options: { shareBudget?: boolean } = {}): AIModel {
+    const copy = new AIModel({
+      ...this.config,
+      fallbacks: [...this.config.fallbacks],
+      apiKey: this.apiKey,
+      provider: this.providerId,
+      transport: this.transport,
+      cache: this.cache,
+      telemetry: this.telemetry,
+    }, this.logger);
+
+    copy.fallbackTransports = new Map(this.fallbackTransports);
+    copy.tools = new Map(this.tools);
+    copy.middleware = [...this.middleware];
+    copy.messages = structuredClone(this.messages);
+    copy.historySummary = this.historySummary;
+    copy.metadata = structuredClone(this.metadata);
+    copy.template = this.template;
+    copy.spend = options.shareBudget ? this.spend : { ...this.spend };
+
+    this.logger.log('MESSAGE', '🌿 Conversation forked', { messageCount: this.messages.length });
+    return copy;
+  }
+
+  /**
+   * Remove the last turn: the last user message and everything after it
+   * (assistant reply, tool calls and tool results)
+   * @returns Removed messages, empty if there is no user message
+   */
+  popTurn(): Message[] {
+    const start = this.messages.map(message => message.role).lastIndexOf('user');
+    if (start === -1) return [];
+
+    const removed = this.messages.splice(start);
+    this.logger.log('MESSAGE', '↩️ Turn removed', {
+      removedMessages: removed.length,
+      totalMessages: this.messages.length,
+    });
+    return removed;
+  }
+
+  /**
+   * Remove the last turns (see popTurn())
+   * @param turns - Number of turns to remove (default: 1)
+   * @returns This instance for chaining
+   */
+  undo(turns = 1): this {
+    for (let i = 0; i < turns; i++) {
+      if (this.popTurn().length === 0) break;
+    }
+    return this;
+  }
+
+  /**
+   * Replace the content of a past message and drop every message after it,
+   * so the conversation continues from the edited message
+   * @param index - Message index as in getMessages()
+   * @param content - New content
+   * @returns This instance for chaining
+   * @throws {ValidationError} If the index is out of range or points at a tool result
+   * @example
+   * ai.editMessage(2, 'Actually, plan a trip to Osaka');
+   * const response = await ai.send();
+   */
+  editMessage(index: number, content: string | MessageContent[]): this {
+    const message = this.messages[index];
+    if (!message) {
+      throw new ValidationError(`No message at index ${index} (history has ${this.messages.length} messages)`);
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      throw new ValidationError(`Cannot edit ${message.role} message at index ${index}`);
+    }
+
+    const removed = this.messages.length - index - 1;
+    this.messages = [...this.messages.slice(0, index), { role: message.role, content }];
+
+    this.logger.log('MESSAGE', `✏️ Message edited (${message.role})`, {
+      index,
+      removedMessages: removed,
+      totalMessages: this.messages.length,
+    });
+    return this;
+  }
+
+  /**
+   * Drop the last assistant reply (with any tool calls) and send the last user message again
+   * If the request fails, the previous reply is restored.
+   * @param options - Request options override, e.g. a higher temperature
+   * @returns New response
+   * @throws {ValidationError} If there is no user message to regenerate from
+   * @example
+   * const alternative = await ai.regenerate({ temperature: 1 });
+   */
+  async regenerate(options?: RequestOptions): Promise<AIResponse> {
+    const start = this.messages.map(message => message.role).lastIndexOf('user');
+    if (start === -1) {
+      throw new ValidationError('No user message to regenerate a response for');
+    }
+
+    const removed = this.messages.splice(start + 1);
+    this.logger.log('MESSAGE', '🔁 Regenerating response', { removedMessages: removed.length });
+    try {
+      return await this.send(options);
+    } catch (error) {
+      // Put the previous reply back so a failed retry loses nothing
+      this.messages.splice(start + 1, Infinity, ...removed);
+      throw error;
+    }
+  }
+
+  // ============================================
+  // TOOL MANAGEMENT
+  // ============================================
+
+  /**
+   * Register a tool the model can call. send() and stream() execute requested
+   * tool calls automatically and feed the results back to the model.
+   * @param tool - Tool definition with handler
+   * @returns This instance for chaining
+   * @throws {ValidationError} If the tool definition is invalid
+   * @example
+   * ai.registerTool({
+   *   name: 'add',
+   *   description: 'Add two numbers',
+   *   parameters: {
+   *     type: 'object',
+   *     properties: { a: { type: 'number' }, b: { type: 'number' } },
+   *     required: ['a', 'b']
+   *   },
+   *   handler: ({ a, b }) => a + b
+   * });
+   */
+  registerTool<TArgs = Record<string, unknown>, TResult = unknown>(tool: ToolDefinition<TArgs, TResult>): this {
+    if (!tool.name || !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new ValidationError(`Invalid tool name '${tool.name}'. Use 1-64 letters, digits, underscores or dashes.`);
+    }
+    if (typeof tool.handler !== 'function') {
+      throw new ValidationError(`Tool '${tool.name}' requires a handler function`);
+    }
+
+    this.tools.set(tool.name, tool as ToolDefinition);
+    this.logger.log('TOOL', `🔧 Tool registered: ${tool.name}`, {
+      description: tool.description,
+      parameters: tool.parameters,
+      totalTools: this.tools.size,
+    });
+    return this;
+  }
+
+  /**
+   * Remove a registered tool
+   * @param name - Tool name
+   * @returns True if the tool was removed
+   */
+  removeTool(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get all registered tools
+   * @returns Copy of registered tool definitions
+   */
+  getTools(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  // ============================================
+  // MIDDLEWARE
+  // ============================================
+
+  /**
+   * Add middleware around send(), stream() and streamEvents()
+   * Runs after global middleware registered with ConfigManager.use()
+   * @param middleware - Middleware hooks
+   * @returns This instance for chaining
+   * @example
+   * ai.use({
+   *   onRequest(request) {
+   *     request.messages = request.messages.map(redactEmails);
+   *   },
+   * });
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    this.logger.log('CONFIG', `🧩 Middleware added${middleware.name ? `: ${middleware.name}` : ''}`, {
+      hooks: Object.keys(middleware).filter(key => key.startsWith('on')),
+    });
+    return this;
+  }
+
+  // ============================================
+  // PROMPT TEMPLATES
+  // ============================================
+
+  /**
+   * Render a prompt template: its system text replaces the system prompt and its
+   * messages are added to the conversation
+   * The template ID and version are recorded on every response from then on,
+   * until another template is used, clearTemplate() or reset() is called.
+   * @param template - Reference ('id' for the latest version, or 'id/version') or a template object
+   * @param variables - Variable values
+   * @param options - Registry to use (default: ConfigManager's)
+   * @returns This instance for chaining
+   * @throws {ValidationError} If the template is not found or a variable is missing or of the wrong type
+   * @example
+   * const response = await ai.useTemplate('support/v3', { product: 'Acme CRM', question }).send();
+   * response.template; // { id: 'support', version: 'v3' }
+   */
+  useTemplate<V extends object>(
+    template: string | PromptTemplate<V>,
+    variables: V = {} as V,
+    options: { registry?: PromptRegistry } = {}
+  ): this {
+    const registry = options.registry ?? ConfigManager.getInstance().getPromptRegistry();
+    const prompt = registry.render(template, variables);
+
+    if (prompt.system !== undefined) this.setSystemPrompt(prompt.system);
+    for (const message of prompt.messages) {
+      this.addMessage(message.content, message.role);
+    }
+    this.template = { id: prompt.id, version: prompt.version };
+
+    this.logger.log('CONFIG', `🧾 Using prompt template ${prompt.id}/${prompt.version}`, {
+      system: prompt.system !== undefined,
+      messages: prompt.messages.length,
+    });
+    return this;
+  }
+
+  /**
+   * Get the prompt template recorded on responses
+   * @returns Template ID and version, or undefined
+   */
+  getTemplate(): TemplateRef | undefined {
+    return this.template && { ...this.template };
+  }
+
+  /**
+   * Stop recording a template on responses (the system prompt and messages are kept)
+   * @returns This instance for chaining
+   */
+  clearTemplate(): this {
+    this.template = undefined;
+    return this;
+  }
+
   // ============================================
   // QUICK MESSAGE METHODS (ONE-LINERS)
   // ============================================
@@ -581,19 +5907,29 @@ export class AIModel {
   }
 
   /**
-   * Send image with text description and get response
+   * Send text with one or more images and get response
+   * Accepts everything addImageMessage() does, plus Blobs
    * @param text - Text question/description
-   * @param imageUrl - Image URL
-   * @param options - Request options override
+   * @param images - Image or images to analyze
+   * @param options - Request options override plus the detail level for all images
    * @returns AI response
    * @example
    * const response = await ai.sendImageMessage(
    *   'What do you see?',
    *   'https://example.com/image.jpg'
    * );
+   *
+   * const upload = await ai.sendImageMessage('Describe this upload', file, { detail: 'low' });
    */
-  async sendImageMessage(text: string, imageUrl: string, options?: RequestOptions): Promise<AIResponse> {
-    return this.addImageMessage(text, imageUrl).send(options);
+  async sendImageMessage(
+    text: string,
+    images: ImageInput | ImageInput[],
+    options?: RequestOptions & { detail?: ImageDetail }
+  ): Promise<AIResponse> {
+    const limits = this.provider.imageLimits || {};
+    const inputs = Array.isArray(images) ? images : [images];
+    const parts = await Promise.all(inputs.map(image => loadImage(image, { ...limits, detail: options?.detail })));
+    return this.addMessage([{ type: 'text', text }, ...parts], 'user').send(options);
   }
 
   /**
@@ -617,74 +5953,1210 @@ export class AIModel {
     return this.send(options);
   }
 
+  // ============================================
+  // BATCH PROCESSING
+  // ============================================
+
+  /**
+   * Run many independent requests
+   * Each request runs in its own fork of this instance (same settings, tools and
+   * middleware, empty history), so this conversation is left untouched. Failures
+   * are returned per item instead of failing the batch.
+   *
+   * With `native: true` and a provider that has an asynchronous Batch API (OpenAI,
+   * Anthropic), the requests are uploaded as one batch and polled until done. That
+   * is cheaper for large offline jobs but can take up to 24 hours; tool calls are
+   * returned in `toolCalls` without being executed, and fallbacks, caching and
+   * middleware are not applied. Other providers fall back to concurrent requests.
+   * @param requests - Prompts or request objects
+   * @param options - Concurrency, shared request options and progress callback
+   * @returns Per-item results with aggregated usage and cost
+   * @example
+   * const { results, usage, cost } = await ai.batch(
+   *   reviews.map(review => ({ id: review.id, input: `Classify the sentiment: ${review.text}` })),
+   *   { concurrency: 10, onProgress: p => console.log(`${p.completed}/${p.total}`) }
+   * );
+   *
+   * for (const result of results) {
+   *   if (result.status === 'success') save(result.id, result.response.content);
+   *   else console.error(result.id, result.error.message);
+   * }
+   */
+  async batch(requests: Array<string | BatchRequest>, options: BatchOptions = {}): Promise<BatchResult> {
+    const items = requests.map(request => typeof request === 'string' ? { input: request } : request);
+    items.forEach((item, index) => {
+      if (item.input === undefined && !item.messages?.length) {
+        throw new ValidationError(`Batch request ${item.id ?? index} needs input or messages`);
+      }
+    });
+
+    const startTime = Date.now();
+    const [route] = this.buildRoutes(options.options?.model || this.config.model);
+    const native = !!options.native && !!route.provider.supportsBatch && !!route.transport.batch;
+    if (options.native && !native) {
+      this.logger.log('REQUEST', `📦 ${route.provider.name} has no Batch API - running requests concurrently`, {
+        provider: route.provider.name,
+      });
+    }
+
+    this.logger.log('REQUEST', '📦 Starting batch', {
+      provider: route.provider.name,
+      requests: items.length,
+      native,
+      concurrency: native ? undefined : options.concurrency ?? 5,
+    });
+
+    const results = native
+      ? await this.runNativeBatch(items, options)
+      : await this.runConcurrentBatch(items, options);
+
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let cost: CostBreakdown | undefined = { input: 0, output: 0, total: 0 };
+    for (const result of results) {
+      if (result.status !== 'success') continue;
+      this.addUsage(usage, result.response.usage, true);
+      cost = addCost(cost, result.response.cost);
+    }
+
+    const succeeded = results.filter(result => result.status === 'success').length;
+    const batch: BatchResult = {
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+      usage,
+      cost,
+      duration: Date.now() - startTime,
+      native,
+    };
+
+    this.logger.log('RESPONSE', '📦 Batch finished', {
+      duration: `${batch.duration}ms`,
+      succeeded: batch.succeeded,
+      failed: batch.failed,
+      usage,
+      cost: cost ? `$${cost.total.toFixed(6)}` : 'unknown',
+    });
+    return batch;
+  }
+
+  /** Fork with an empty history holding one batch request */
+  private createBatchWorker(item: BatchRequest): AIModel {
+    // Workers spend from the instance budget
+    const worker = this.fork({ shareBudget: true });
+    worker.messages = item.messages ? structuredClone(item.messages) : [];
+    worker.historySummary = '';
+    worker.metadata = {};
+    if (item.systemPrompt !== undefined) worker.config.systemPrompt = item.systemPrompt;
+    if (item.input !== undefined) worker.messages.push({ role: 'user', content: item.input });
+    return worker;
+  }
+
+  /** Run batch requests through send() with a bounded number in flight */
+  private async runConcurrentBatch(items: BatchRequest[], options: BatchOptions): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = new Array(items.length);
+    let next = 0;
+    let completed = 0;
+    let failed = 0;
+
+    const runNext = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        const item = items[index];
+        const id = item.id ?? String(index);
+        try {
+          // The instance budget covers the whole batch
+          this.checkBudget();
+          const worker = this.createBatchWorker(item);
+          const response = await worker.send({
+            ...options.options,
+            ...item.options,
+            signal: combineSignals([options.signal, options.options?.signal, item.options?.signal]),
+          });
+          results[index] = { id, index, status: 'success', response };
+        } catch (error) {
+          results[index] = { id, index, status: 'error', error: toAIError(error, { provider: this.provider.name }) };
+          failed++;
+        }
+
+        completed++;
+        options.onProgress?.({ completed, failed, total: items.length, result: results[index] });
+      }
+    };
+
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? 5, items.length));
+    await Promise.all(Array.from({ length: concurrency }, runNext));
+    return results;
+  }
+
+  /** Submit batch requests to the provider's Batch API and wait for the results */
+  private async runNativeBatch(items: BatchRequest[], options: BatchOptions): Promise<BatchItemResult[]> {
+    this.checkBudget();
+
+    const prepared = items.map(item => {
+      const worker = this.createBatchWorker(item);
+      worker.validateMessages();
+      const config = worker.mergeOptions({ ...options.options, ...item.options });
+      const [route] = worker.buildRoutes(config.model);
+      const { signal, ...request } = worker.buildTransportRequest(config, route);
+      return { route, request };
+    });
+
+    if (prepared.length === 0) return [];
+
+    const { route } = prepared[0];
+    const outputs = await route.transport.batch!(prepared.map(({ request }) => request), {
+      pollInterval: options.pollInterval ?? 30000,
+      signal: options.signal,
+      onProgress: ({ completed, failed }) => options.onProgress?.({ completed, failed, total: items.length }),
+    });
+
+    return outputs.map((output, index): BatchItemResult => {
+      const id = items[index].id ?? String(index);
+      const model = prepared[index].request.model;
+      if (output instanceof Error) {
+        return { id, index, status: 'error', error: toAIError(output, { provider: route.provider.name, model }) };
+      }
+
+      const response: AIResponse = {
+        content: output.content,
+        usage: output.usage,
+        cost: this.recordSpend(prepared[index].route, output.model, output.usage, route.provider.batchPriceFactor),
+        model: output.model,
+        provider: route.provider.name,
+        finishReason: output.finishReason,
+      };
+      if (output.toolCalls.length > 0) response.toolCalls = output.toolCalls;
+      if (output.choices?.length) response.choices = output.choices;
+      if (output.audio) response.audio = output.audio;
+      return { id, index, status: 'success', response };
+    });
+  }
+
+  // ============================================
+  // EMBEDDINGS
+  // ============================================
+
+  /**
+   * Create embeddings with this instance's provider, API key, retries and rate limiter
+   * Large inputs are split into requests within the provider's embeddingLimits and
+   * sent one after another; vectors come back in input order. Fallbacks are not
+   * used, since vectors from different models are not comparable.
+   * @param texts - Text or texts to embed
+   * @param options - Model, dimensions and batching
+   * @returns Vectors, usage and cost
+   * @throws {ValidationError} If the provider has no embeddings API, no model is known or an input is too long
+   * @throws {BudgetExceededError} If the budget is used up before a request
+   * @example
+   * const { embeddings } = await ai.embed(['first document', 'second document'], { dimensions: 512 });
+   */
+  async embed(texts: string | string[], options: EmbedOptions = {}): Promise<EmbeddingResult> {
+    const inputs = Array.isArray(texts) ? texts : [texts];
+    const model = options.model || this.provider.embeddingModel;
+    if (!this.transport.embed || !model) {
+      throw new ValidationError(
+        `${this.provider.name} has no ${this.transport.embed ? 'default embedding model; pass options.model' : 'embeddings API'}`,
+        { code: 'embeddings_not_supported', provider: this.provider.name }
+      );
+    }
+
+    const route: ModelRoute = { providerId: this.providerId, provider: this.provider, model, transport: this.transport };
+    const limits = { ...this.provider.embeddingLimits };
+    if (options.batchSize) limits.maxInputs = Math.min(options.batchSize, limits.maxInputs ?? Infinity);
+    const batches = splitEmbeddingBatches(inputs, limits, text => this.config.tokenEstimator(text, model));
+    const limiter = ProviderRegistry.getRateLimiter(this.providerId);
+
+    this.logger.log('REQUEST', '🔢 Creating embeddings', {
+      provider: this.provider.name,
+      model,
+      inputs: inputs.length,
+      requests: batches.length,
+    });
+
+    const startTime = Date.now();
+    const embeddings: number[][] = [];
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let cost: CostBreakdown | undefined = { input: 0, output: 0, total: 0 };
+    let responseModel = model;
+
+    for (const batch of batches) {
+      this.checkBudget();
+      const result = await this.makeRequest(async () => {
+        const lease = await limiter?.acquire({ tokens: batch.tokens, signal: options.signal });
+        try {
+          const result = await this.transport.embed!({
+            model,
+            input: batch.texts,
+            dimensions: options.dimensions,
+            headers: options.headers,
+            signal: options.signal,
+            onHeaders: limiter && (headers => limiter.observeHeaders(headers)),
+          });
+          lease?.release(result.usage.totalTokens || undefined);
+          return result;
+        } catch (error) {
+          lease?.fail(error);
+          throw error;
+        }
+      }, options.signal);
+
+      embeddings.push(...result.embeddings);
+      this.addUsage(usage, result.usage, true);
+      cost = addCost(cost, this.recordSpend(route, result.model, result.usage));
+      responseModel = result.model;
+    }
+
+    this.logger.log('RESPONSE', '🔢 Embeddings created', {
+      model: responseModel,
+      inputs: inputs.length,
+      dimensions: embeddings[0]?.length,
+      usage,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    return { embeddings, usage, cost, model: responseModel, provider: this.provider.name, requests: batches.length };
+  }
+
+  // ============================================
+  // RETRIEVAL
+  // ============================================
+
+  /**
+   * Answer a question from the most relevant chunks of a VectorIndex
+   * The question and answer are added to the conversation; the retrieved sources
+   * are sent as per-request context only, so they never enter the history.
+   * The chunks used are returned on `response.sources`, numbered as in the prompt.
+   * @param question - User question
+   * @param index - Index to retrieve from
+   * @param options - Retrieval (topK, minScore, filter), instructions and request options
+   * @returns AI response with its sources
+   * @example
+   * const answer = await ai.sendGrounded('How long is the refund window?', index, { topK: 3 });
+   * console.log(answer.content);
+   * answer.sources?.forEach((source, i) => console.log(`[${i + 1}] ${source.source}`));
+   */
+  async sendGrounded(question: string, index: VectorIndex, options: GroundedSendOptions = {}): Promise<AIResponse> {
+    const { topK, minScore, filter, instructions = DEFAULT_GROUNDING_INSTRUCTIONS, ...requestOptions } = options;
+    const sources = await index.query(this, question, { topK, minScore, filter, signal: options.signal });
+
+    this.logger.log('REQUEST', '📚 Retrieved sources', {
+      count: sources.length,
+      sources: sources.map(source => ({ id: source.id, score: Number(source.score.toFixed(3)) })),
+    });
+
+    const context = sources.length > 0
+      ? sources.map((source, i) => `[${i + 1}] (${source.source})\n${source.text}`).join('\n\n')
+      : 'No relevant sources were found.';
+    const response = await this.addUserMessage(question).send({
+      ...requestOptions,
+      context: [requestOptions.context, `${instructions}\n\nSources:\n${context}`].filter(Boolean).join('\n\n'),
+    });
+    response.sources = sources;
+    return response;
+  }
+
   // ============================================
   // PRIVATE HELPER METHODS
   // ============================================
 
-  /** Build complete message array including system prompt */
-  private buildMessages(): Message[] {
+  /**
+   * Build complete message array including system prompt
+   * When JSON output is requested from a provider without response_format
+   * support, the format instructions are added to the system message, as is
+   * any per-request context. JSON mode always gets them: OpenAI rejects
+   * json_object requests whose messages do not mention JSON.
+   */
+  private buildMessages(responseFormat?: ResponseFormat, provider = this.provider, context?: string): Message[] {
     const msgs: Message[] = [];
+    let systemPrompt = this.config.systemPrompt;
+
+    if (context) {
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${context}` : context;
+    }
+
+    if (this.historySummary) {
+      const summary = `Summary of the earlier conversation:\n${this.historySummary}`;
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${summary}` : summary;
+    }
+
+    const needsInstructions = responseFormat?.type === 'json_object'
+      || (responseFormat?.type === 'json_schema' && !provider.supportsResponseFormat);
+    if (responseFormat && needsInstructions) {
+      const instructions = this.buildFormatInstructions(responseFormat);
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${instructions}` : instructions;
+    }
     
-    if (this.config.systemPrompt) {
-      msgs.push({ role: 'system', content: this.config.systemPrompt });
+    if (systemPrompt) {
+      msgs.push({ role: 'system', content: systemPrompt });
     }
     
     msgs.push(...this.messages);
     return msgs;
   }
 
+  /** Prompt instructions describing the requested JSON format */
+  private buildFormatInstructions(responseFormat: ResponseFormat): string {
+    let instructions = 'Respond only with valid JSON. Do not include explanations or markdown code fences.';
+    if (responseFormat.type === 'json_schema') {
+      instructions += ` The JSON must match this schema:\n${JSON.stringify(responseFormat.schema, null, 2)}`;
+    }
+    return instructions;
+  }
+
+  /**
+   * Apply the configured history strategy before a request
+   * Removed turns are gone from getMessages(); `summarize` keeps their gist in the system prompt
+   * @param config - Merged request options
+   */
+  private async compactHistory(config: ReturnType<AIModel['mergeOptions']>): Promise<void> {
+    const strategy = this.config.history;
+    if (strategy.type === 'full') return;
+
+    const before = this.messages.length;
+    if (strategy.type === 'sliding_window') {
+      if (before <= strategy.maxMessages) return;
+      this.messages = this.messages.slice(this.findTurnStart(before - strategy.maxMessages));
+    } else {
+      const limit = strategy.maxTokens ?? this.getHistoryTokenLimit(config.model, config.maxTokens);
+      if (limit === undefined || this.countTokens(undefined, config.model) <= limit) return;
+
+      if (strategy.type === 'summarize') {
+        const cut = this.findTurnStart(before - (strategy.keepRecent ?? 4));
+        if (cut > 0) {
+          this.historySummary = await this.summarizeMessages(this.messages.slice(0, cut), strategy, config);
+          this.messages = this.messages.slice(cut);
+        }
+      }
+
+      // Drop whole turns while the request is still too large, always keeping the latest one
+      while (this.countTokens(undefined, config.model) > limit) {
+        const next = this.findTurnStart(1);
+        if (next >= this.messages.length || next === 0) break;
+        this.messages = this.messages.slice(next);
+      }
+    }
+
+    if (this.messages.length < before) {
+      this.logger.log('MESSAGE', `✂️ History compacted (${strategy.type})`, {
+        removedMessages: before - this.messages.length,
+        remainingMessages: this.messages.length,
+        estimatedTokens: this.countTokens(undefined, config.model),
+        summarized: strategy.type === 'summarize' && this.historySummary !== '',
+      });
+    }
+  }
+
+  /**
+   * Find the first turn boundary (user message) at or after an index
+   * Falls back to the last user message so the current turn is never cut
+   */
+  private findTurnStart(from: number): number {
+    const start = Math.max(from, 0);
+    for (let i = start; i < this.messages.length; i++) {
+      if (this.messages[i].role === 'user') return i;
+    }
+    for (let i = Math.min(start, this.messages.length) - 1; i >= 0; i--) {
+      if (this.messages[i].role === 'user') return i;
+    }
+    return 0;
+  }
+
+  /** Prompt token limit from the model's context window, leaving room for the response */
+  private getHistoryTokenLimit(model: string, maxTokens: number): number | undefined {
+    const contextWindow = ProviderRegistry.getContextWindow(this.providerId, model);
+    return contextWindow === undefined ? undefined : contextWindow - maxTokens;
+  }
+
+  /**
+   * Ask a model to summarize older messages, folding in any earlier summary
+   * @returns Summary text
+   */
+  private async summarizeMessages(
+    messages: Message[],
+    strategy: Extract<HistoryStrategy, { type: 'summarize' }>,
+    config: ReturnType<AIModel['mergeOptions']>
+  ): Promise<string> {
+    const route = this.buildRoutes(strategy.model || config.model)[0];
+    const transcript = this.historySummary
+      ? `Earlier summary:\n${this.historySummary}\n\n${formatTranscript(messages)}`
+      : formatTranscript(messages);
+
+    this.checkBudget();
+    const completion = await this.makeRequest(() => route.transport.complete({
+      model: route.model,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      temperature: 0,
+      maxTokens: strategy.maxSummaryTokens ?? 500,
+      signal: config.signal,
+    }), config.signal);
+    this.recordSpend(route, completion.model, completion.usage);
+
+    return completion.content.trim();
+  }
+
   /** Validate that we have messages to send */
   private validateMessages(): void {
     const messages = this.buildMessages();
     if (messages.length === 0) {
-      throw new Error('No messages to send. Add at least one message or set a system prompt.');
+      throw new ValidationError('No messages to send. Add at least one message or set a system prompt.');
     }
 
     // Check if there's at least one user message
     const hasUserMessage = messages.some(msg => msg.role === 'user');
     if (!hasUserMessage) {
-      throw new Error('No user messages to send. Add at least one user message.');
+      throw new ValidationError('No user messages to send. Add at least one user message.');
+    }
+  }
+
+  /** Merge request options with model defaults */
+  private mergeOptions(options?: RequestOptions) {
+    const config = {
+      model: options?.model || this.config.model,
+      temperature: options?.temperature ?? this.config.temperature,
+      maxTokens: options?.maxTokens || this.config.maxTokens,
+      stream: options?.stream || false,
+      toolChoice: options?.toolChoice,
+      responseFormat: options?.responseFormat,
+      maxToolIterations: options?.maxToolIterations ?? this.config.maxToolIterations,
+      cache: options?.cache ?? false,
+      priority: options?.priority ?? 0,
+      topP: options?.topP ?? this.config.topP,
+      stop: options?.stop ?? this.config.stop,
+      seed: options?.seed ?? this.config.seed,
+      presencePenalty: options?.presencePenalty ?? this.config.presencePenalty,
+      frequencyPenalty: options?.frequencyPenalty ?? this.config.frequencyPenalty,
+      logitBias: options?.logitBias ?? this.config.logitBias,
+      n: options?.n ?? this.config.n,
+      logprobs: options?.logprobs ?? this.config.logprobs,
+      topLogprobs: options?.topLogprobs ?? this.config.topLogprobs,
+      user: options?.user ?? this.config.user,
+      extraBody: this.config.extraBody || options?.extraBody
+        ? { ...this.config.extraBody, ...options?.extraBody }
+        : undefined,
+      selectChoice: options?.selectChoice,
+      audio: options?.audio,
+      context: options?.context,
+      signal: combineSignals([
+        options?.signal,
+        options?.timeout ? AbortSignal.timeout(options.timeout) : undefined,
+      ]),
+    };
+
+    this.validateSampling(config);
+    if (config.audio && config.stream) {
+      throw new ValidationError('Audio output is only available with send(), not when streaming');
+    }
+    return config;
+  }
+
+  /**
+   * Fail early when the conversation has images but the route's model is known not to accept them
+   * @throws {ValidationError} With code 'model_not_multimodal'
+   */
+  private checkImageSupport(route: ModelRoute): void {
+    if (ProviderRegistry.supportsImages(route.providerId, route.model) !== false) return;
+
+    const hasImages = this.messages.some(message =>
+      Array.isArray(message.content) && message.content.some(part => part.type === 'image_url')
+    );
+    if (hasImages) {
+      throw new ValidationError(
+        `Model '${route.model}' on ${route.provider.name} does not accept images; choose a vision model`,
+        { code: 'model_not_multimodal', provider: route.provider.name, model: route.model }
+      );
+    }
+  }
+
+  /**
+   * Check sampling options against the ranges providers accept
+   * @throws {ValidationError} If an option is out of range
+   */
+  private validateSampling(options: SamplingOptions & { stream?: boolean }): void {
+    const { topP, presencePenalty, frequencyPenalty, n, topLogprobs, seed, stop, logitBias } = options;
+    const fail = (message: string) => {
+      throw new ValidationError(message, { code: 'invalid_sampling_option' });
+    };
+
+    if (topP !== undefined && !(topP >= 0 && topP <= 1)) fail('topP must be between 0 and 1');
+    for (const [name, value] of [['presencePenalty', presencePenalty], ['frequencyPenalty', frequencyPenalty]] as const) {
+      if (value !== undefined && !(value >= -2 && value <= 2)) fail(`${name} must be between -2 and 2`);
+    }
+    if (n !== undefined && !(Number.isInteger(n) && n >= 1)) fail('n must be a positive integer');
+    if (n !== undefined && n > 1 && options.stream) fail('n > 1 is not supported when streaming');
+    if (seed !== undefined && !Number.isInteger(seed)) fail('seed must be an integer');
+    if (topLogprobs !== undefined) {
+      if (!(Number.isInteger(topLogprobs) && topLogprobs >= 0 && topLogprobs <= 20)) fail('topLogprobs must be an integer between 0 and 20');
+      if (!options.logprobs) fail('topLogprobs requires logprobs: true');
+    }
+    if (stop !== undefined && (typeof stop === 'string' ? [stop] : stop).some(sequence => !sequence)) {
+      fail('stop sequences must be non-empty strings');
+    }
+    for (const [token, bias] of Object.entries(logitBias || {})) {
+      if (!(bias >= -100 && bias <= 100)) fail(`logitBias for token ${token} must be between -100 and 100`);
+    }
+  }
+
+  /**
+   * Index of the choice to commit to history
+   * @throws {ValidationError} If the selection is not one of the choices
+   */
+  private pickChoice(choices: AIChoice[], select: RequestOptions['selectChoice']): number {
+    const index = typeof select === 'function' ? select(choices) : select ?? 0;
+    if (!Number.isInteger(index) || index < 0 || index >= choices.length) {
+      throw new ValidationError(`selectChoice returned ${index}, but there are ${choices.length} choices`);
+    }
+    return index;
+  }
+
+  /** Build the provider-neutral request for the current conversation */
+  private buildTransportRequest(config: ReturnType<AIModel['mergeOptions']>, route: ModelRoute): TransportRequest {
+    this.checkImageSupport(route);
+
+    const request: TransportRequest = {
+      model: route.model,
+      messages: this.buildMessages(config.responseFormat, route.provider, config.context),
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      topP: config.topP,
+      stop: config.stop,
+      seed: config.seed,
+      presencePenalty: config.presencePenalty,
+      frequencyPenalty: config.frequencyPenalty,
+      logitBias: config.logitBias,
+      n: config.n,
+      logprobs: config.logprobs,
+      topLogprobs: config.topLogprobs,
+      user: config.user,
+      extraBody: config.extraBody,
+      audio: config.audio,
+      signal: config.signal,
+    };
+
+    if (this.tools.size > 0) {
+      request.tools = Array.from(this.tools.values()).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      }));
+      request.toolChoice = config.toolChoice;
+    }
+
+    // Providers without native support get format instructions from buildMessages()
+    if (config.responseFormat && route.provider.supportsResponseFormat) {
+      request.responseFormat = config.responseFormat;
+    }
+
+    return request;
+  }
+
+  /**
+   * Cache key for a request, or undefined if it should bypass the cache
+   * Covers provider, model, the built messages, sampling parameters, tools and response format
+   * @param request - First request of the call, after onRequest hooks
+   */
+  private getCacheKey(config: ReturnType<AIModel['mergeOptions']>, request: TransportRequest): string | undefined {
+    if (!this.cache || !config.cache) return undefined;
+
+    const { allowNonDeterministic = false } = config.cache === true ? {} : config.cache;
+    if (config.temperature > 0 && !allowNonDeterministic) return undefined;
+
+    const { signal, onHeaders, ...fields } = request;
+    return createHash('sha256')
+      .update(JSON.stringify({ provider: this.providerId, ...fields }))
+      .digest('hex');
+  }
+
+  /**
+   * Look up a cached response
+   * Cache failures are logged and treated as misses
+   */
+  private async readCache(key: string): Promise<AIResponse | undefined> {
+    try {
+      const cached = await this.cache!.get(key);
+      if (!cached) return undefined;
+
+      this.logger.log('RESPONSE', '📦 Served from cache', {
+        key,
+        model: cached.model,
+        responsePreview: cached.content.substring(0, 200),
+      });
+      // Cache hits are free; the original usage and cost stay available separately
+      return {
+        ...cached,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        cost: { input: 0, output: 0, total: 0 },
+        cached: true,
+        cachedUsage: cached.usage,
+        cachedCost: cached.cost,
+      };
+    } catch (error) {
+      this.logger.log('ERROR', '❌ Cache read failed', { key, message: (error as Error).message }, 'warn');
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response in the cache
+   * Responses that executed tools are not cached, since replaying them would skip the tools
+   */
+  private async writeCache(key: string, response: AIResponse, options: boolean | CacheOptions): Promise<void> {
+    if (response.toolCalls) return;
+
+    try {
+      await this.cache!.set(key, response, typeof options === 'object' ? options.ttl : undefined);
+    } catch (error) {
+      this.logger.log('ERROR', '❌ Cache write failed', { key, message: (error as Error).message }, 'warn');
+    }
+  }
+
+  /**
+   * Primary route followed by the configured fallbacks
+   * @param model - Model for the primary route
+   * @throws {ValidationError} If a fallback provider is not registered
+   */
+  private buildRoutes(model: string): ModelRoute[] {
+    const routes: ModelRoute[] = [
+      { providerId: this.providerId, provider: this.provider, model, transport: this.transport },
+    ];
+
+    for (const fallback of this.config.fallbacks) {
+      const provider = ProviderRegistry.getProvider(fallback.provider);
+      if (!provider) {
+        throw new ValidationError(`Fallback provider '${fallback.provider}' not found`, {
+          code: 'provider_not_found',
+          provider: fallback.provider,
+        });
+      }
+
+      const apiKey = fallback.apiKey || this.apiKey;
+      const key = `${fallback.provider}\n${apiKey}`;
+      let transport = this.fallbackTransports.get(key);
+      if (!transport) {
+        transport = createTransport({ apiKey, provider, timeout: this.config.timeout });
+        this.fallbackTransports.set(key, transport);
+      }
+
+      routes.push({ providerId: fallback.provider, provider, model: fallback.model || provider.defaultModel, transport });
+    }
+
+    return routes;
+  }
+
+  /**
+   * Run a request on each route in turn until one succeeds
+   * Moves on only for retryable/unavailable failures, never after cancellation
+   * @param routes - Routes to try, in order
+   * @param signal - Cancellation signal
+   * @param run - Request to run on a route
+   * @returns Result and the route that produced it
+   */
+  private async withFallback<T>(
+    routes: ModelRoute[],
+    signal: AbortSignal | undefined,
+    run: (route: ModelRoute) => Promise<T>,
+    span?: ActiveSpan
+  ): Promise<{ result: T; route: ModelRoute }> {
+    const policy = this.resolveRetryPolicy();
+
+    for (let index = 0; ; index++) {
+      const route = routes[index];
+      try {
+        return { result: await run(route), route };
+      } catch (error) {
+        const aiError = toAIError(error, { provider: route.provider.name, model: route.model });
+        const next = routes[index + 1];
+        if (!next || signal?.aborted || !isRetryableError(aiError, policy)) {
+          throw aiError;
+        }
+
+        this.logger.log('ERROR', `↪️ Falling back to ${next.provider.name} (${next.model})`, {
+          from: { provider: route.provider.name, model: route.model },
+          to: { provider: next.provider.name, model: next.model },
+          error: aiError.message,
+          errorType: aiError.name,
+          hop: index + 1,
+        }, 'warn');
+
+        span?.addEvent('ai.fallback', {
+          'ai.fallback.from': `${route.providerId}/${route.model}`,
+          'ai.fallback.to': `${next.providerId}/${next.model}`,
+          'error.type': aiError.name,
+        });
+        this.telemetry.metrics?.counter('ai_client_fallbacks_total', 'Requests moved to a fallback provider')
+          .inc({ from: route.providerId, to: next.providerId });
+      }
+    }
+  }
+
+  /** Run requested tool calls and append their results to the conversation */
+  private async executeToolCalls(toolCalls: ToolCall[], span: ActiveSpan, signal?: AbortSignal): Promise<void> {
+    for (const call of toolCalls) {
+      const tool = this.tools.get(call.function.name);
+      const startTime = Date.now();
+      const toolSpan = span.child(`execute_tool ${call.function.name}`, 'internal', {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': call.function.name,
+        'gen_ai.tool.call.id': call.id,
+      });
+      let result: string;
+
+      if (!tool) {
+        result = JSON.stringify({ error: `Unknown tool '${call.function.name}'` });
+      } else {
+        try {
+          const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+          const output = await tool.handler(args, { signal });
+          result = typeof output === 'string' ? output : JSON.stringify(output ?? null);
+        } catch (error) {
+          // Report handler failures to the model so it can recover or explain
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result = JSON.stringify({ error: errorMessage });
+          this.logger.log('ERROR', `❌ Tool '${call.function.name}' failed`, {
+            callId: call.id,
+            error: errorMessage,
+          }, 'warn');
+          toolSpan.end(error instanceof Error ? error : new Error(errorMessage));
+        }
+      }
+      toolSpan.end();
+
+      this.messages.push({ role: 'tool', tool_call_id: call.id, content: result });
+
+      this.logger.log('TOOL', `🔧 Tool executed: ${call.function.name}`, {
+        callId: call.id,
+        arguments: call.function.arguments,
+        duration: `${Date.now() - startTime}ms`,
+        resultPreview: result.substring(0, 200),
+      });
+    }
+  }
+
+  /**
+   * Combine accumulated usage with a streaming round's usage
+   * @param total - Usage of completed rounds
+   * @param round - Usage reported so far in the current round
+   * @param commit - Add the round into `total` instead of returning a preview
+   */
+  private addUsage(
+    total: TokenUsage,
+    round: Partial<TokenUsage>,
+    commit: boolean
+  ): TokenUsage {
+    const promptTokens = round.promptTokens || 0;
+    const completionTokens = round.completionTokens || 0;
+    const combined: TokenUsage = {
+      promptTokens: total.promptTokens + promptTokens,
+      completionTokens: total.completionTokens + completionTokens,
+      totalTokens: total.totalTokens + (round.totalTokens ?? promptTokens + completionTokens),
+    };
+    // Optional counters only appear once a provider reports them
+    if (total.cachedTokens !== undefined || round.cachedTokens !== undefined) {
+      combined.cachedTokens = (total.cachedTokens || 0) + (round.cachedTokens || 0);
+    }
+    if (total.reasoningTokens !== undefined || round.reasoningTokens !== undefined) {
+      combined.reasoningTokens = (total.reasoningTokens || 0) + (round.reasoningTokens || 0);
+    }
+    if (commit) Object.assign(total, combined);
+    return combined;
+  }
+
+  /**
+   * Throw if the instance has used up its budget
+   * @throws {BudgetExceededError} If the cost or token limit has been reached
+   */
+  private checkBudget(): void {
+    const { maxCost, maxTokens } = this.config.budget;
+
+    if (maxCost !== undefined && this.spend.cost >= maxCost) {
+      throw new BudgetExceededError(
+        `Cost budget of $${maxCost} exhausted ($${this.spend.cost.toFixed(6)} spent)`,
+        { ...this.spend },
+        this.config.budget
+      );
+    }
+    if (maxTokens !== undefined && this.spend.tokens >= maxTokens) {
+      throw new BudgetExceededError(
+        `Token budget of ${maxTokens} exhausted (${this.spend.tokens} used)`,
+        { ...this.spend },
+        this.config.budget
+      );
+    }
+  }
+
+  /**
+   * Add one model call to the running spend
+   * @param route - Route that served the call
+   * @param model - Model reported by the provider
+   * @param usage - Token usage of the call
+   * @param priceFactor - Share of the standard prices charged, e.g. for Batch API requests
+   * @returns Cost of the call, or undefined if the model has no known pricing
+   */
+  private recordSpend(route: ModelRoute, model: string, usage: TokenUsage, priceFactor = 1): CostBreakdown | undefined {
+    const pricing = ProviderRegistry.getModelPricing(route.providerId, model)
+      ?? ProviderRegistry.getModelPricing(route.providerId, route.model);
+    const cost = pricing ? scaleCost(calculateCost(usage, pricing), priceFactor) : undefined;
+
+    this.spend.requests++;
+    this.spend.tokens += usage.totalTokens;
+    this.spend.cost += cost?.total || 0;
+    return cost;
+  }
+
+  /** Throw if the tool loop has used up its iteration budget */
+  private checkToolIterations(iteration: number, maxIterations: number): void {
+    if (iteration >= maxIterations) {
+      throw new AIError(`Tool call limit reached: no final answer after ${maxIterations} tool iterations`, {
+        code: 'tool_iteration_limit',
+      });
     }
   }
 
-  /** Merge request options with model defaults */
-  private mergeOptions(options?: RequestOptions) {
-    return {
-      model: options?.model || this.config.model,
-      temperature: options?.temperature ?? this.config.temperature,
-      maxTokens: options?.maxTokens || this.config.maxTokens,
-      stream: options?.stream || false,
-    };
+  /** Configured retry policy with defaults filled in (hook excluded) */
+  private resolveRetryPolicy(): Required<Omit<RetryPolicy, 'onRetry'>> {
+    const { onRetry, ...overrides } = this.config.retryPolicy;
+    return { ...DEFAULT_RETRY_POLICY, ...overrides };
   }
 
-  /** Execute request with retry logic and exponential backoff */
-  private async makeRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+  /**
+   * Execute request with retry logic following the configured RetryPolicy
+   * Non-retryable failures are thrown immediately; the loop also stops
+   * (including during backoff) once the signal aborts
+   * @throws {AIError} Classified failure with the attempt count
+   */
+  private async makeRequest<T>(
+    requestFn: () => Promise<T>,
+    signal?: AbortSignal,
+    providerName = this.provider.name
+  ): Promise<T> {
+    const { onRetry } = this.config.retryPolicy;
+    const policy = this.resolveRetryPolicy();
+    const maxAttempts = this.config.retryAttempts;
     let lastError: Error | null = null;
     
-    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (signal?.aborted) throw createAbortError(signal);
+
       try {
         return await requestFn();
       } catch (error) {
+        if (signal?.aborted) throw createAbortError(signal);
         lastError = error instanceof Error ? error : new Error(String(error));
+        const status = getErrorStatus(error);
+
+        if (!isRetryableError(error, policy)) {
+          this.logger.log('ERROR', '❌ Request failed with non-retryable error', {
+            error: lastError.message,
+            status,
+            attempt,
+          });
+          throw toAIError(lastError, { provider: providerName, attempts: attempt });
+        }
         
-        if (attempt < this.config.retryAttempts) {
-          const delayMs = 2 ** attempt * 1000;
-          this.logger.log('ERROR', `❌ Request failed (attempt ${attempt}/${this.config.retryAttempts})`, {
+        if (attempt < maxAttempts) {
+          const delayMs = computeRetryDelay(error, attempt, policy);
+          this.logger.log('ERROR', `❌ Request failed (attempt ${attempt}/${maxAttempts})`, {
             error: lastError.message,
+            status,
             retryIn: `${delayMs}ms`,
-          });
-          
-          await new Promise(resolve => setTimeout(resolve, delayMs));
+          }, 'warn');
+
+          onRetry?.({ attempt, maxAttempts, delayMs, error: lastError, status });
+          await sleep(delayMs, signal);
         }
       }
     }
     
     this.logger.log('ERROR', '❌ All retry attempts failed', {
       error: lastError?.message,
-      attempts: this.config.retryAttempts,
+      attempts: maxAttempts,
     });
     
-    throw lastError || new Error('Request failed after all retry attempts');
+    throw toAIError(lastError || 'Request failed after all retry attempts', {
+      provider: providerName,
+      attempts: maxAttempts,
+    });
+  }
+
+  /** Middleware for a request: global defaults from ConfigManager first */
+  private getMiddleware(): Middleware[] {
+    return [...ConfigManager.getInstance().getMiddleware(), ...this.middleware];
+  }
+
+  /**
+   * Run onRequest hooks before a model call
+   * @returns Response from a middleware that short-circuits the call, if any
+   */
+  private async applyRequestMiddleware(
+    middleware: Middleware[],
+    request: TransportRequest,
+    context: MiddlewareContext
+  ): Promise<TransportResponse | undefined> {
+    for (const mw of middleware) {
+      const response = await mw.onRequest?.(request, context);
+      if (response) {
+        this.logger.log('REQUEST', `🧩 Request answered by middleware${mw.name ? `: ${mw.name}` : ''}`, {
+          iteration: context.iteration,
+        });
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /** Build the request for a route and run onRequest hooks, which may answer it */
+  private async prepareRequest(
+    config: ReturnType<AIModel['mergeOptions']>,
+    route: ModelRoute,
+    middleware: Middleware[],
+    context: MiddlewareContext,
+    iteration: number
+  ): Promise<PreparedRequest> {
+    const request = this.buildTransportRequest(config, route);
+    Object.assign(context, { provider: route.provider.name, model: request.model, iteration });
+    return { route, request, answer: await this.applyRequestMiddleware(middleware, request, context) };
+  }
+
+  /** Run onResponse hooks, then add the final reply to history */
+  private async completeResponse(
+    middleware: Middleware[],
+    response: AIResponse,
+    context: MiddlewareContext
+  ): Promise<AIResponse> {
+    let result = response;
+    if (this.template) result.template = { ...this.template };
+    for (const mw of middleware) {
+      result = (await mw.onResponse?.(result, context)) || result;
+    }
+
+    this.messages.push({ role: 'assistant', content: result.content });
+    return result;
+  }
+
+  /**
+   * Run onError hooks until one recovers with a response
+   * @returns Recovery response (already added to history), or undefined to rethrow
+   */
+  private async recoverFromError(
+    middleware: Middleware[],
+    error: AIError,
+    context: MiddlewareContext
+  ): Promise<AIResponse | undefined> {
+    for (const mw of middleware) {
+      const response = await mw.onError?.(error, context);
+      if (response) {
+        this.logger.log('RESPONSE', `🧩 Error recovered by middleware${mw.name ? `: ${mw.name}` : ''}`, {
+          type: error.name,
+        });
+        this.messages.push({ role: 'assistant', content: response.content });
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /** Emit a complete response as stream events */
+  private *replayResponse(response: AIResponse): Generator<StreamEvent> {
+    if (response.content) yield { type: 'text_delta', delta: response.content };
+    yield { type: 'usage', usage: response.usage };
+    yield { type: 'finish', response };
+  }
+
+  /**
+   * Wait for a slot from the rate limiter attached to the route's provider
+   * Response headers are routed back to the limiter so it can adapt
+   * @returns Lease to release after the call, or undefined if the provider is not limited
+   */
+  private async acquireRateLimit(
+    route: ModelRoute,
+    request: TransportRequest,
+    config: ReturnType<AIModel['mergeOptions']>,
+    span: ActiveSpan
+  ): Promise<RateLimitLease | undefined> {
+    const limiter = ProviderRegistry.getRateLimiter(route.providerId);
+    if (!limiter) return undefined;
+
+    const tokens = countMessageTokens(request.messages, this.config.tokenEstimator, request.model) + request.maxTokens;
+    const lease = await limiter.acquire({ tokens, priority: config.priority, signal: config.signal });
+    request.onHeaders = headers => limiter.observeHeaders(headers);
+
+    if (lease.waitMs > 0) {
+      span.setAttributes({ 'ai.rate_limit.wait_ms': lease.waitMs });
+      this.logger.log('REQUEST', '⏳ Waited for rate limiter', {
+        provider: route.provider.name,
+        waitMs: lease.waitMs,
+        priority: config.priority,
+        ...limiter.getState(),
+      });
+    }
+    return lease;
+  }
+
+  /** Start the span covering a whole send() or stream() call */
+  private startRequestSpan(config: ReturnType<AIModel['mergeOptions']>): ActiveSpan {
+    const onSpan = (span: SpanData) => {
+      try {
+        this.telemetry.onSpan?.(span);
+      } catch (error) {
+        this.logger.log('ERROR', '❌ Telemetry sink failed', { message: (error as Error).message }, 'warn');
+      }
+    };
+
+    return new ActiveSpan(config.stream ? 'ai.stream' : 'ai.send', 'internal', {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': this.providerId,
+      'gen_ai.request.model': config.model,
+      'gen_ai.request.temperature': config.temperature,
+      'gen_ai.request.max_tokens': config.maxTokens,
+      'gen_ai.request.top_p': config.topP,
+      'gen_ai.request.seed': config.seed,
+      'gen_ai.request.presence_penalty': config.presencePenalty,
+      'gen_ai.request.frequency_penalty': config.frequencyPenalty,
+      'gen_ai.request.stop_sequences': typeof config.stop === 'string' ? [config.stop] : config.stop,
+      'gen_ai.request.choice.count': config.n,
+    }, onSpan);
+  }
+
+  /**
+   * Run one provider call attempt inside a `chat {model}` client span
+   * @param parent - Request span
+   * @param route - Route being called
+   * @param attempt - Attempt number on this route, from 1
+   * @param iteration - Tool round
+   * @param call - The provider call, given its span for extra attributes
+   */
+  private async traceAttempt<T>(
+    parent: ActiveSpan,
+    route: ModelRoute,
+    attempt: number,
+    iteration: number,
+    call: (span: ActiveSpan) => Promise<T>
+  ): Promise<T> {
+    const span = parent.child(`chat ${route.model}`, 'client', {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': route.providerId,
+      'gen_ai.request.model': route.model,
+      'server.address': getHostname(route.provider.baseURL),
+      'ai.attempt': attempt,
+      'ai.iteration': iteration,
+    });
+    if (attempt > 1) {
+      this.telemetry.metrics?.counter('ai_client_retries_total', 'Provider calls retried after a failure')
+        .inc({ provider: route.providerId, model: route.model });
+    }
+
+    try {
+      const result = await call(span);
+      span.end();
+      return result;
+    } catch (error) {
+      span.setAttributes({ 'http.response.status_code': getErrorStatus(error) });
+      span.end(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /** Record time to first streamed chunk */
+  private recordFirstChunk(span: ActiveSpan, route: ModelRoute, startTime: number): void {
+    const elapsed = Date.now() - startTime;
+    span.addEvent('gen_ai.first_chunk');
+    span.setAttributes({ 'ai.time_to_first_chunk_ms': elapsed });
+    this.telemetry.metrics?.histogram(
+      'gen_ai_client_time_to_first_chunk_seconds',
+      'Time from request start to the first streamed chunk',
+      FIRST_CHUNK_BUCKETS
+    ).observe({ provider: route.providerId, model: route.model }, elapsed / 1000);
+  }
+
+  /**
+   * Finish the request span and record request metrics
+   * @param span - Request span
+   * @param outcome - Final response and route, or the error
+   */
+  private endRequestSpan(
+    span: ActiveSpan,
+    outcome: { response: AIResponse; providerId: string } | { error: AIError }
+  ): void {
+    const metrics = this.telemetry.metrics;
+
+    if ('error' in outcome) {
+      span.end(outcome.error);
+      const labels = { provider: this.providerId, model: outcome.error.model || this.config.model };
+      metrics?.counter('gen_ai_client_requests_total', 'Requests by outcome').inc({ ...labels, outcome: 'error' });
+      metrics?.counter('gen_ai_client_errors_total', 'Failed requests by error type')
+        .inc({ ...labels, error_type: outcome.error.name });
+      metrics?.histogram('gen_ai_client_operation_duration_seconds', 'Request duration including retries and tool rounds')
+        .observe(labels, (Date.now() - span.startTime) / 1000);
+      return;
+    }
+
+    const { response, providerId } = outcome;
+    span.setAttributes({
+      'gen_ai.system': providerId,
+      'gen_ai.response.model': response.model,
+      'gen_ai.response.finish_reasons': response.finishReason ? [response.finishReason] : undefined,
+      'gen_ai.usage.input_tokens': response.usage.promptTokens,
+      'gen_ai.usage.output_tokens': response.usage.completionTokens,
+      'ai.cost.total': response.cost?.total,
+      'ai.cached': response.cached,
+    });
+    span.end();
+
+    if (!metrics) return;
+    const labels = { provider: providerId, model: response.model };
+    metrics.counter('gen_ai_client_requests_total', 'Requests by outcome').inc({ ...labels, outcome: 'success' });
+    metrics.histogram('gen_ai_client_operation_duration_seconds', 'Request duration including retries and tool rounds')
+      .observe(labels, (Date.now() - span.startTime) / 1000);
+    if (response.cached) return;
+
+    const tokens = metrics.counter('gen_ai_client_tokens_total', 'Tokens used by type');
+    tokens.inc({ ...labels, token_type: 'input' }, response.usage.promptTokens);
+    tokens.inc({ ...labels, token_type: 'output' }, response.usage.completionTokens);
+    if (response.cost) {
+      metrics.counter('ai_client_cost_usd_total', 'Spend in USD').inc(labels, response.cost.total);
+    }
+  }
+
+  /**
+   * Open a stream and wait for its first chunk inside the retry loop, so
+   * streams that fail before producing anything are retried like regular calls
+   */
+  private async openStream(
+    request: TransportRequest,
+    route: ModelRoute,
+    config: ReturnType<AIModel['mergeOptions']>,
+    span: ActiveSpan,
+    iteration: number
+  ): Promise<AsyncIterable<TransportChunk>> {
+    let attempt = 0;
+    let lease: RateLimitLease | undefined;
+    const { iterator, first } = await this.makeRequest(() => this.traceAttempt(span, route, ++attempt, iteration, async attemptSpan => {
+      lease = await this.acquireRateLimit(route, request, config, attemptSpan);
+      try {
+        const iterator = (await route.transport.stream(request))[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      } catch (error) {
+        lease?.fail(error);
+        throw error;
+      }
+    }), config.signal, route.provider.name);
+
+    // The rate-limit slot is held until the stream ends
+    return (async function* () {
+      const usage: Partial<TokenUsage> = {};
+      try {
+        let result = first;
+        while (!result.done) {
+          Object.assign(usage, result.value.usage);
+          yield result.value;
+          result = await iterator.next();
+        }
+      } finally {
+        lease?.release((usage.promptTokens ?? 0) + (usage.completionTokens ?? 0) || undefined);
+        await iterator.return?.();
+      }
+    })();
   }
 
   // ============================================
@@ -693,9 +7165,11 @@ export class AIModel {
 
   /**
    * Send conversation to AI model and get response
+   * If the model calls registered tools, they are executed and the results sent
+   * back until the model produces a final answer
    * @param options - Request-specific options
    * @returns Structured AI response
-   * @throws {Error} On API errors or invalid requests
+   * @throws {AIError} Typed subclass for API errors, cancellation or invalid requests
    * @example
    * const response = await ai.send({
    *   temperature: 0.8,
@@ -704,8 +7178,9 @@ export class AIModel {
    */
   async send(options?: RequestOptions): Promise<AIResponse> {
     this.validateMessages();
-    const messages = this.buildMessages();
     const config = this.mergeOptions(options);
+    await this.compactHistory(config);
+    const messages = this.buildMessages();
 
     this.logger.log('REQUEST', '📤 Sending request', {
       provider: this.provider.name,
@@ -723,67 +7198,157 @@ export class AIModel {
       })),
     });
 
+    // Cancelled requests roll history back to this point
+    const historyLength = this.messages.length;
+    const middleware = this.getMiddleware();
+    const context: MiddlewareContext = {
+      provider: this.provider.name,
+      model: config.model,
+      stream: false,
+      iteration: 0,
+      state: {},
+    };
+    const span = this.startRequestSpan(config);
+
     try {
       const startTime = Date.now();
-      
-      const completion = await this.makeRequest(() => 
-        this.client.chat.completions.create({
-          model: config.model,
-          messages: messages as OpenAI.ChatCompletionMessageParam[],
-          temperature: config.temperature,
-          max_tokens: config.maxTokens,
-          stream: false,
-        })
-      );
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      // Stays undefined once any round is unpriced
+      let cost: CostBreakdown | undefined = { input: 0, output: 0, total: 0 };
+      const executedToolCalls: ToolCall[] = [];
+      let routes = this.buildRoutes(config.model);
 
-      const content = completion.choices[0]?.message?.content || '';
-      const duration = Date.now() - startTime;
-      
-      // Auto-add assistant response to conversation history
-      this.messages.push({ role: 'assistant', content });
+      // onRequest hooks run before the cache lookup, so they also see cache hits
+      let first: PreparedRequest | undefined = await this.prepareRequest(config, routes[0], middleware, context, 0);
+      const cacheKey = this.getCacheKey(config, first.request);
+      const cached = !first.answer && cacheKey && await this.readCache(cacheKey);
+      if (cached) {
+        const response = await this.completeResponse(middleware, cached, context);
+        this.endRequestSpan(span, { response, providerId: this.providerId });
+        return response;
+      }
 
-      const response: AIResponse = {
-        content,
-        usage: {
-          promptTokens: completion.usage?.prompt_tokens || 0,
-          completionTokens: completion.usage?.completion_tokens || 0,
-          totalTokens: completion.usage?.total_tokens || 0,
-        },
-        model: completion.model,
-        finishReason: completion.choices[0]?.finish_reason,
-      };
+      for (let iteration = 0; ; iteration++) {
+        this.checkBudget();
+        const { result: completion, route } = await this.withFallback(routes, config.signal, async route => {
+          const { request, answer } = first?.route === route
+            ? first
+            : await this.prepareRequest(config, route, middleware, context, iteration);
+          first = undefined;
 
-      this.logger.log('RESPONSE', '📥 Received response', {
-        duration: `${duration}ms`,
-        model: response.model,
-        finishReason: response.finishReason,
-        usage: {
-          promptTokens: response.usage.promptTokens,
-          completionTokens: response.usage.completionTokens,
-          totalTokens: response.usage.totalTokens,
-          estimatedCost: `$${((response.usage.totalTokens / 1000) * 0.0001).toFixed(6)}`,
-        },
-        responseLength: content.length,
-        responsePreview: content.substring(0, 200),
-      });
+          let attempt = 0;
+          return answer
+            ?? await this.makeRequest(() => this.traceAttempt(span, route, ++attempt, iteration, async attemptSpan => {
+              const lease = await this.acquireRateLimit(route, request, config, attemptSpan);
+              let completion: TransportResponse;
+              try {
+                completion = await route.transport.complete(request);
+              } catch (error) {
+                lease?.fail(error);
+                throw error;
+              }
+              lease?.release(completion.usage.totalTokens || undefined);
+              attemptSpan.setAttributes({
+                'gen_ai.response.model': completion.model,
+                'gen_ai.usage.input_tokens': completion.usage.promptTokens,
+                'gen_ai.usage.output_tokens': completion.usage.completionTokens,
+              });
+              return completion;
+            }), config.signal, route.provider.name);
+        }, span);
+        // Stay on the route that answered for the remaining tool rounds
+        routes = routes.slice(routes.indexOf(route));
+
+        this.addUsage(usage, completion.usage, true);
+        cost = addCost(cost, this.recordSpend(route, completion.model, completion.usage));
+
+        const { toolCalls } = completion;
+        let { content } = completion;
+
+        // Execute requested tools and ask the model again with their results
+        // (with n > 1, tool rounds follow the first choice)
+        if (toolCalls.length > 0) {
+          this.checkToolIterations(iteration, config.maxToolIterations);
+          this.messages.push({ role: 'assistant', content, tool_calls: toolCalls });
+          executedToolCalls.push(...toolCalls);
+          await this.executeToolCalls(toolCalls, span, config.signal);
+          continue;
+        }
+
+        const duration = Date.now() - startTime;
+        let finishReason = completion.finishReason;
+        let logprobs: TokenLogprob[] | undefined;
+        if (completion.choices?.length) {
+          const selected = completion.choices[this.pickChoice(completion.choices, config.selectChoice)];
+          ({ content, finishReason, logprobs } = selected);
+        }
 
-      return response;
+        const response: AIResponse = {
+          content,
+          usage,
+          cost,
+          model: completion.model,
+          provider: route.provider.name,
+          finishReason,
+        };
+        if (executedToolCalls.length > 0) {
+          response.toolCalls = executedToolCalls;
+        }
+        if (completion.choices?.length) {
+          response.choices = completion.choices;
+          if (logprobs) response.logprobs = logprobs;
+        }
+        if (completion.audio) response.audio = completion.audio;
+
+        this.logger.log('RESPONSE', '📥 Received response', {
+          duration: `${duration}ms`,
+          provider: response.provider,
+          model: response.model,
+          finishReason: response.finishReason,
+          toolIterations: iteration,
+          usage: response.usage,
+          cost: cost ? `$${cost.total.toFixed(6)}` : 'unknown',
+          responseLength: content.length,
+          responsePreview: content.substring(0, 200),
+        });
+
+        if (cacheKey) await this.writeCache(cacheKey, response, config.cache);
+
+        // Adds the (possibly rewritten) reply to conversation history; the span ends
+        // afterwards so a throwing onResponse middleware is only counted as an error
+        const finalResponse = await this.completeResponse(middleware, response, context);
+        this.endRequestSpan(span, { response: finalResponse, providerId: route.providerId });
+        return finalResponse;
+      }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (config.signal?.aborted) {
+        this.messages = this.messages.slice(0, historyLength);
+      }
+
+      const aiError = toAIError(error, { provider: this.provider.name, model: config.model });
       this.logger.log('ERROR', '❌ API Error occurred', {
-        message: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
+        type: aiError.name,
+        message: aiError.message,
+        status: aiError.status,
+        code: aiError.code,
+        requestId: aiError.requestId,
+        attempts: aiError.attempts,
+        stack: aiError.stack,
       });
-      
-      throw new Error(`AI API Error: ${errorMessage}`);
+      this.endRequestSpan(span, { error: aiError });
+
+      const recovered = await this.recoverFromError(middleware, aiError, context);
+      if (recovered) return recovered;
+      throw aiError;
     }
   }
 
   /**
    * Stream response from AI model in real-time
+   * Registered tools are executed between rounds; text from every round is streamed
    * @param onChunk - Callback for each text chunk
    * @param options - Request options override
-   * @returns Complete response content
+   * @returns Content of the final assistant message
    * @example
    * const fullText = await ai.stream(
    *   (chunk) => process.stdout.write(chunk)
@@ -793,9 +7358,37 @@ export class AIModel {
     onChunk: (chunk: string) => void,
     options?: RequestOptions
   ): Promise<string> {
+    const events = this.streamEvents(options);
+    let result = await events.next();
+
+    while (!result.done) {
+      if (result.value.type === 'text_delta') {
+        onChunk(result.value.delta);
+      }
+      result = await events.next();
+    }
+
+    return result.value.content;
+  }
+
+  /**
+   * Stream response as typed events, ending with the complete AIResponse
+   * Events: `text_delta`, `tool_call_delta`, `usage`, `finish` (carries the
+   * response) and `error` (emitted just before the error is thrown).
+   * The generator's return value is the same AIResponse as the `finish` event.
+   * @param options - Request options override
+   * @returns Async generator of stream events
+   * @example
+   * for await (const event of ai.addUserMessage('Hi!').streamEvents()) {
+   *   if (event.type === 'text_delta') process.stdout.write(event.delta);
+   *   if (event.type === 'finish') console.log(event.response.usage);
+   * }
+   */
+  async *streamEvents(options?: RequestOptions): AsyncGenerator<StreamEvent, AIResponse> {
     this.validateMessages();
-    const messages = this.buildMessages();
     const config = this.mergeOptions({ ...options, stream: true });
+    await this.compactHistory(config);
+    const messages = this.buildMessages();
 
     this.logger.log('REQUEST', '📤 Starting streaming request', {
       provider: this.provider.name,
@@ -805,55 +7398,385 @@ export class AIModel {
       messageCount: messages.length,
     });
 
+    // Cancelled requests roll history back to this point
+    const historyLength = this.messages.length;
+    const middleware = this.getMiddleware();
+    const context: MiddlewareContext = {
+      provider: this.provider.name,
+      model: config.model,
+      stream: true,
+      iteration: 0,
+      state: {},
+    };
+    const span = this.startRequestSpan(config);
+
     try {
       const startTime = Date.now();
-      
-      const stream = await this.makeRequest(() => 
-        this.client.chat.completions.create({
-          model: config.model,
-          messages: messages as OpenAI.ChatCompletionMessageParam[],
-          temperature: config.temperature,
-          max_tokens: config.maxTokens,
-          stream: true,
-        })
-      );
-
-      let fullContent = '';
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let cost: CostBreakdown | undefined = { input: 0, output: 0, total: 0 };
+      const executedToolCalls: ToolCall[] = [];
+      let totalLength = 0;
       let chunkCount = 0;
+      let routes = this.buildRoutes(config.model);
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          fullContent += content;
-          chunkCount++;
-          onChunk(content);
-        }
+      // onRequest hooks run before the cache lookup, so they also see cache hits;
+      // cached responses are replayed as a single text delta
+      let first: PreparedRequest | undefined = await this.prepareRequest(config, routes[0], middleware, context, 0);
+      const cacheKey = this.getCacheKey(config, first.request);
+      const cached = !first.answer && cacheKey && await this.readCache(cacheKey);
+      if (cached) {
+        const response = await this.completeResponse(middleware, cached, context);
+        this.endRequestSpan(span, { response, providerId: this.providerId });
+        yield* this.replayResponse(response);
+        return response;
       }
 
-      const duration = Date.now() - startTime;
+      for (let iteration = 0; ; iteration++) {
+        this.checkBudget();
+        // Fallback is only possible until the first chunk arrives
+        const { result: stream, route } = await this.withFallback(routes, config.signal, async route => {
+          const { request, answer } = first?.route === route
+            ? first
+            : await this.prepareRequest(config, route, middleware, context, iteration);
+          first = undefined;
+          return answer
+            ? responseToChunks(answer)
+            : await this.openStream(request, route, config, span, iteration);
+        }, span);
+        routes = routes.slice(routes.indexOf(route));
 
-      // Add complete response to history
-      this.messages.push({ role: 'assistant', content: fullContent });
+        let fullContent = '';
+        let model = route.model;
+        let finishReason: string | undefined;
+        let roundUsage: Partial<TokenUsage> = {};
+        const toolCalls: ToolCall[] = [];
 
-      this.logger.log('STREAM', '✅ Streaming completed', {
-        duration: `${duration}ms`,
-        model: config.model,
-        chunksReceived: chunkCount,
-        totalLength: fullContent.length,
-        avgChunkSize: Math.round(fullContent.length / Math.max(chunkCount, 1)),
-        contentPreview: fullContent.substring(0, 200),
-      });
+        for await (const chunk of stream) {
+          // Leaving the loop closes the underlying stream
+          if (config.signal?.aborted) throw createAbortError(config.signal);
+          if (chunk.model) model = chunk.model;
+          if (chunk.finishReason) finishReason = chunk.finishReason;
 
-      return fullContent;
+          const content = middleware.reduce(
+            (delta, mw) => (delta && mw.onStreamDelta ? mw.onStreamDelta(delta, context) : delta),
+            chunk.content || ''
+          );
+          if (content) {
+            if (chunkCount === 0) this.recordFirstChunk(span, route, startTime);
+            fullContent += content;
+            totalLength += content.length;
+            chunkCount++;
+            yield { type: 'text_delta', delta: content };
+          }
+
+          // Tool calls arrive in fragments keyed by index
+          for (const part of chunk.toolCalls || []) {
+            if (!toolCalls[part.index]) {
+              toolCalls[part.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+            }
+            const call = toolCalls[part.index];
+            if (part.id) call.id = part.id;
+            if (part.name) call.function.name += part.name;
+            if (part.arguments) call.function.arguments += part.arguments;
+            yield { type: 'tool_call_delta', ...part };
+          }
+
+          // Providers report usage in one or several partial chunks
+          if (chunk.usage) {
+            roundUsage = { ...roundUsage, ...chunk.usage };
+            yield { type: 'usage', usage: this.addUsage(usage, roundUsage, false) };
+          }
+        }
+
+        const completedUsage = this.addUsage({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }, roundUsage, false);
+        this.addUsage(usage, completedUsage, true);
+        cost = addCost(cost, this.recordSpend(route, model, completedUsage));
+
+        const requestedTools = toolCalls.filter(Boolean);
+        if (requestedTools.length > 0) {
+          this.checkToolIterations(iteration, config.maxToolIterations);
+          this.messages.push({ role: 'assistant', content: fullContent, tool_calls: requestedTools });
+          executedToolCalls.push(...requestedTools);
+          await this.executeToolCalls(requestedTools, span, config.signal);
+          continue;
+        }
+
+        const duration = Date.now() - startTime;
+
+        const response: AIResponse = {
+          content: fullContent,
+          usage,
+          cost,
+          model,
+          provider: route.provider.name,
+          finishReason,
+        };
+        if (executedToolCalls.length > 0) {
+          response.toolCalls = executedToolCalls;
+        }
+
+        this.logger.log('STREAM', '✅ Streaming completed', {
+          duration: `${duration}ms`,
+          provider: route.provider.name,
+          model,
+          finishReason,
+          toolIterations: iteration,
+          chunksReceived: chunkCount,
+          totalLength,
+          avgChunkSize: Math.round(totalLength / Math.max(chunkCount, 1)),
+          usage,
+          cost: cost ? `$${cost.total.toFixed(6)}` : 'unknown',
+          contentPreview: fullContent.substring(0, 200),
+        });
+
+        if (cacheKey) await this.writeCache(cacheKey, response, config.cache);
+
+        // Text already streamed is final; onResponse changes apply to the returned response and history
+        const finalResponse = await this.completeResponse(middleware, response, context);
+        this.endRequestSpan(span, { response: finalResponse, providerId: route.providerId });
+        yield { type: 'finish', response: finalResponse };
+        return finalResponse;
+      }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (config.signal?.aborted) {
+        this.messages = this.messages.slice(0, historyLength);
+      }
+
+      const aiError = toAIError(error, { provider: this.provider.name, model: config.model });
       this.logger.log('ERROR', '❌ Streaming error occurred', {
-        message: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
+        type: aiError.name,
+        message: aiError.message,
+        status: aiError.status,
+        code: aiError.code,
+        requestId: aiError.requestId,
+        attempts: aiError.attempts,
+        stack: aiError.stack,
       });
-      
-      throw new Error(`AI Stream Error: ${errorMessage}`);
+      this.endRequestSpan(span, { error: aiError });
+
+      const recovered = await this.recoverFromError(middleware, aiError, context);
+      if (recovered) {
+        yield* this.replayResponse(recovered);
+        return recovered;
+      }
+
+      yield { type: 'error', error: aiError };
+      throw aiError;
+    } finally {
+      // Consumers that stop iterating early still close the span
+      span.end();
+    }
+  }
+
+  // ============================================
+  // STRUCTURED OUTPUT
+  // ============================================
+
+  /**
+   * Send conversation and get validated JSON output
+   * Uses response_format where the provider supports it and prompt instructions
+   * otherwise. Invalid output is sent back to the model with the validation
+   * errors, up to `maxRepairAttempts` times; the repair turns are then removed
+   * from history, leaving only the valid answer (or nothing on failure).
+   * @param schema - JSON schema the output must match, or a validator function
+   * @param options - Request options override
+   * @returns Response with parsed `data`
+   * @throws {StructuredOutputError} If output is still invalid after all repair attempts
+   * @example
+   * interface Person { name: string; age: number }
+   * 
+   * const { data } = await ai
+   *   .addUserMessage('Extract the person: "Ada Lovelace, 36 years old"')
+   *   .sendStructured<Person>({
+   *     type: 'object',
+   *     properties: { name: { type: 'string' }, age: { type: 'integer' } },
+   *     required: ['name', 'age']
+   *   });
+   */
+  async sendStructured<T = unknown>(
+    schema: JSONSchema | OutputValidator,
+    options: StructuredOptions = {}
+  ): Promise<StructuredResponse<T>> {
+    const { schemaName, validate, maxRepairAttempts = 2, ...requestOptions } = options;
+    const validators: OutputValidator[] = [];
+    let responseFormat: ResponseFormat;
+
+    if (typeof schema === 'function') {
+      responseFormat = { type: 'json_object' };
+      validators.push(schema);
+    } else {
+      responseFormat = { type: 'json_schema', name: schemaName || 'response', schema };
+      validators.push(value => validateJSONSchema(value, schema));
+    }
+    if (validate) validators.push(validate);
+
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let cost: CostBreakdown | undefined = { input: 0, output: 0, total: 0 };
+    let errors: string[] = [];
+    let content = '';
+    // Invalid answers and repair prompts are removed from history: on success
+    // only the final answer remains, on failure none of the attempts do
+    const historyLength = this.messages.length;
+
+    try {
+      for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+        const attemptStart = this.messages.length;
+        const response = await this.send({ ...requestOptions, responseFormat });
+        this.addUsage(usage, response.usage, true);
+        cost = addCost(cost, response.cost);
+        content = response.content;
+
+        const parsed = parseJSONContent(content);
+        errors = parsed.error
+          ? [parsed.error]
+          : validators.flatMap(validator => validator(parsed.value));
+
+        if (errors.length === 0) {
+          this.messages.splice(historyLength, attemptStart - historyLength);
+          return { ...response, usage, cost, data: parsed.value as T, attempts: attempt };
+        }
+
+        this.logger.log('ERROR', `❌ Structured output invalid (attempt ${attempt}/${maxRepairAttempts + 1})`, {
+          errors,
+          contentPreview: content.substring(0, 200),
+        }, 'warn');
+
+        if (attempt <= maxRepairAttempts) {
+          this.addUserMessage(
+            'Your previous response was invalid:\n' +
+            errors.map(error => `- ${error}`).join('\n') +
+            '\nRespond again with only the corrected JSON.'
+          );
+        }
+      }
+
+      throw new StructuredOutputError(
+        `Structured output invalid after ${maxRepairAttempts + 1} attempts: ${errors.join('; ')}`,
+        errors,
+        content,
+        { provider: this.provider.name, model: requestOptions.model || this.config.model, attempts: maxRepairAttempts + 1 }
+      );
+    } catch (error) {
+      this.messages.splice(historyLength);
+      throw error;
+    }
+  }
+
+  // ============================================
+  // PERSISTENCE
+  // ============================================
+
+  /**
+   * Attach application data (user ID, title, ...) that is saved with the conversation
+   * @param metadata - Entries to merge into existing metadata
+   * @returns This instance for chaining
+   */
+  setMetadata(metadata: Record<string, unknown>): this {
+    this.metadata = { ...this.metadata, ...metadata };
+    return this;
+  }
+
+  /**
+   * Get application data attached to the conversation
+   * @returns Copy of the metadata
+   */
+  getMetadata(): Record<string, unknown> {
+    return { ...this.metadata };
+  }
+
+  /**
+   * Serialize the conversation: provider, settings, system prompt, history and metadata
+   * API keys, transports and tools are not included
+   * @returns Plain JSON-safe object
+   * @example
+   * const saved = JSON.stringify(ai);
+   * const restored = AIModel.fromJSON(saved, { apiKey: process.env.OPENAI_API_KEY! });
+   */
+  toJSON(): SerializedConversation {
+    const { tokenEstimator, retryPolicy, fallbacks, ...settings } = this.config;
+    const { onRetry, retryableErrors, ...retryData } = retryPolicy;
+
+    return JSON.parse(JSON.stringify({
+      version: CONVERSATION_SCHEMA_VERSION,
+      provider: this.providerId,
+      config: {
+        ...settings,
+        retryPolicy: retryData,
+        fallbacks: fallbacks.map(({ apiKey, ...target }) => target),
+      },
+      template: this.template,
+      messages: this.messages,
+      historySummary: this.historySummary,
+      metadata: this.metadata,
+      spend: this.spend,
+      savedAt: new Date().toISOString(),
+    }));
+  }
+
+  /**
+   * Save the conversation to a store
+   * @param store - Conversation store
+   * @param id - Conversation ID
+   */
+  async saveTo(store: ConversationStore, id: string): Promise<void> {
+    await store.save(id, this.toJSON());
+    this.logger.log('CONFIG', `💾 Conversation saved: ${id}`, { messageCount: this.messages.length });
+  }
+
+  /**
+   * Restore a conversation serialized with toJSON()
+   * @param data - Serialized conversation or its JSON string
+   * @param config - API key plus overrides (transport, token estimator, ...) applied on top of the saved settings
+   * @param logger - Optional custom logger
+   * @returns New AIModel instance with the saved state
+   * @throws {ValidationError} If the data is malformed or from an unsupported schema version
+   */
+  static fromJSON(data: SerializedConversation | string, config: AIModelConfig, logger?: Logger): AIModel {
+    let conversation: SerializedConversation;
+    try {
+      conversation = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (error) {
+      throw new ValidationError('Serialized conversation is not valid JSON', { code: 'invalid_conversation', cause: error });
+    }
+
+    if (!conversation || !Array.isArray(conversation.messages) || !conversation.config) {
+      throw new ValidationError('Invalid serialized conversation', { code: 'invalid_conversation' });
+    }
+    if (conversation.version !== CONVERSATION_SCHEMA_VERSION) {
+      throw new ValidationError(
+        `Unsupported conversation schema version ${conversation.version} (expected ${CONVERSATION_SCHEMA_VERSION})`,
+        { code: 'unsupported_conversation_version' }
+      );
     }
+
+    const model = new AIModel({ ...conversation.config, provider: conversation.provider, ...config }, logger);
+    model.messages = structuredClone(conversation.messages);
+    model.historySummary = conversation.historySummary || '';
+    model.metadata = { ...conversation.metadata };
+    model.template = conversation.template;
+    if (conversation.spend) model.spend = { ...conversation.spend };
+    return model;
+  }
+
+  /**
+   * Load a conversation from a store
+   * @param store - Conversation store
+   * @param id - Conversation ID
+   * @param config - API key plus overrides, as for fromJSON()
+   * @param logger - Optional custom logger
+   * @returns Restored AIModel, or undefined if the conversation does not exist
+   * @example
+   * const ai = await AIModel.loadFrom(store, sessionId, { apiKey })
+   *   ?? new AIModel({ apiKey, systemPrompt: 'You are helpful.' });
+   */
+  static async loadFrom(
+    store: ConversationStore,
+    id: string,
+    config: AIModelConfig,
+    logger?: Logger
+  ): Promise<AIModel | undefined> {
+    const conversation = await store.load(id);
+    return conversation && AIModel.fromJSON(conversation, config, logger);
   }
 
   // ============================================
@@ -876,7 +7799,7 @@ export class AIModel {
    * @param overrides - Configuration overrides
    * @param logger - Optional custom logger
    * @returns New AIModel instance
-   * @throws {Error} If API key not found in environment
+   * @throws {ValidationError} If API key not found in environment
    * @example
    * // Uses OPENROUTER_API_KEY or OPENAI_API_KEY from env
    * const ai = AIModel.createFromEnv('openrouter', {
@@ -894,9 +7817,10 @@ export class AIModel {
     const apiKey = process.env[`${envKey}_API_KEY`] || process.env.OPENAI_API_KEY;
     
     if (!apiKey) {
-      throw new Error(
+      throw new ValidationError(
         `${envKey}_API_KEY or OPENAI_API_KEY environment variable is not set. ` +
-        `Please set it to use the ${providerId} provider.`
+        `Please set it to use the ${providerId} provider.`,
+        { provider: providerId }
       );
     }
 
@@ -950,6 +7874,8 @@ export class ConfigManager {
   private static instance: ConfigManager;
   private defaultConfig: Partial<AIModelConfig> = {};
   private customProviders: Map<string, AIProviderConfig> = new Map();
+  private middleware: Middleware[] = [];
+  private prompts = new PromptRegistry();
 
   /** Private constructor for singleton pattern */
   private constructor() {}
@@ -987,6 +7913,56 @@ export class ConfigManager {
     return { ...this.defaultConfig };
   }
 
+  /**
+   * Add middleware that runs for every AIModel instance, before instance middleware
+   * @param middleware - Middleware hooks
+   * @example
+   * ConfigManager.getInstance().use({
+   *   onRequest(request) {
+   *     request.headers = { ...request.headers, 'X-Service': 'billing-api' };
+   *   },
+   * });
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Get global middleware
+   * @returns Copy of the middleware list in registration order
+   */
+  getMiddleware(): Middleware[] {
+    return [...this.middleware];
+  }
+
+  /**
+   * Attach a rate limiter to a provider for every AIModel instance
+   * Shortcut for ProviderRegistry.setRateLimiter()
+   * @param providerId - Provider identifier
+   * @param limiter - Limiter to attach, or undefined to remove it
+   */
+  setRateLimiter(providerId: string, limiter: RateLimiter | undefined): void {
+    ProviderRegistry.setRateLimiter(providerId, limiter);
+  }
+
+  /**
+   * Get the global prompt template registry, used by AIModel.useTemplate()
+   * @returns Shared PromptRegistry
+   */
+  getPromptRegistry(): PromptRegistry {
+    return this.prompts;
+  }
+
+  /**
+   * Register a prompt template version in the global registry
+   * Shortcut for getPromptRegistry().register()
+   * @param template - Template to register
+   * @returns The template, typed for useTemplate()
+   */
+  registerPrompt<V extends object = Record<string, unknown>>(template: PromptTemplate<V>): PromptTemplate<V> {
+    return this.prompts.register(template);
+  }
+
   /**
    * Register custom provider with configuration manager
    * @param id - Provider identifier
@@ -1011,13 +7987,13 @@ export class ConfigManager {
    * @param overrides - Configuration overrides
    * @param logger - Optional custom logger
    * @returns New AIModel instance
-   * @throws {Error} If API key not provided
+   * @throws {ValidationError} If API key not provided
    */
   createModel(overrides?: Partial<AIModelConfig>, logger?: Logger): AIModel {
     const config = { ...this.defaultConfig, ...overrides };
     
     if (!config.apiKey) {
-      throw new Error('API key is required. Provide it in config or set via setDefaultConfig().');
+      throw new ValidationError('API key is required. Provide it in config or set via setDefaultConfig().');
     }
     
     return new AIModel(config as AIModelConfig, logger);